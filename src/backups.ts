@@ -0,0 +1,71 @@
+import { CrossPlayerData, MediaItem } from './types';
+
+export const DATA_BACKUP_PREFIX = 'data-';
+export const DATA_BACKUP_EXTENSION = '.json';
+
+export interface DataBackupInfo {
+    path: string;
+    createdAt: number;
+    deviceId: string; // empty for backups made before each device kept its own
+}
+
+export interface QueueSnapshotDiff {
+    added: MediaItem[]; // in the backup but not in the current queue
+    removed: MediaItem[]; // in the current queue but not in the backup
+    positionChanges: { item: MediaItem; currentPosition: number; backupPosition: number }[];
+    orderChanged: boolean;
+}
+
+// File names sort chronologically and stay valid on every platform the vault syncs to.
+export function formatDataBackupName(date: Date): string {
+    return `${DATA_BACKUP_PREFIX}${date.toISOString().replace(/[:.]/g, '-')}${DATA_BACKUP_EXTENSION}`;
+}
+
+export function parseDataBackupTimestamp(fileName: string): number | null {
+    const match = fileName.match(/data-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/);
+    if (!match) return null;
+
+    const [, day, hours, minutes, seconds, milliseconds] = match;
+    const timestamp = Date.parse(`${day}T${hours}:${minutes}:${seconds}.${milliseconds}Z`);
+    return isNaN(timestamp) ? null : timestamp;
+}
+
+function findMatch(queue: MediaItem[], item: MediaItem): MediaItem | undefined {
+    return queue.find(candidate => candidate.id === item.id)
+        || queue.find(candidate => candidate.path === item.path);
+}
+
+export function diffQueueSnapshot(current: MediaItem[], backup: CrossPlayerData): QueueSnapshotDiff {
+    const backupQueue = Array.isArray(backup.queue) ? backup.queue : [];
+    const diff: QueueSnapshotDiff = { added: [], removed: [], positionChanges: [], orderChanged: false };
+
+    for (const backupItem of backupQueue) {
+        if (!findMatch(current, backupItem)) {
+            diff.added.push(backupItem);
+        }
+    }
+
+    const sharedCurrentOrder: string[] = [];
+    for (const currentItem of current) {
+        const backupItem = findMatch(backupQueue, currentItem);
+        if (!backupItem) {
+            diff.removed.push(currentItem);
+            continue;
+        }
+
+        sharedCurrentOrder.push(backupItem.id);
+        const currentPosition = currentItem.position || 0;
+        const backupPosition = backupItem.position || 0;
+        // Sub-second drift is just the last autosave tick, not a change worth restoring.
+        if (Math.abs(currentPosition - backupPosition) >= 1) {
+            diff.positionChanges.push({ item: currentItem, currentPosition, backupPosition });
+        }
+    }
+
+    const sharedBackupOrder = backupQueue
+        .filter(item => sharedCurrentOrder.includes(item.id))
+        .map(item => item.id);
+    diff.orderChanged = sharedBackupOrder.some((id, index) => sharedCurrentOrder[index] !== id);
+
+    return diff;
+}
@@ -0,0 +1,520 @@
+import { MediaChapter } from './types';
+import { parseSubtitleTimestamp } from './subtitles';
+
+export const MP4_CHAPTER_EXTENSIONS = ['mp4', 'm4a', 'm4b', 'm4v', 'mov'];
+export const MATROSKA_CHAPTER_EXTENSIONS = ['mkv', 'webm'];
+export const CHAPTER_SIDECAR_SUFFIX = '.chapters.txt';
+
+// Metadata boxes are small; anything larger is almost certainly a broken size field.
+const MAX_MP4_MOOV_BYTES = 64 * 1024 * 1024;
+const MAX_MATROSKA_CHAPTERS_BYTES = 4 * 1024 * 1024;
+const MAX_CHAPTER_TITLE_BYTES = 1024;
+// A chapter track holds one sample per chapter; anything far beyond this is a corrupt or hostile file.
+const MAX_CHAPTER_SAMPLES = 10000;
+
+const EBML_HEADER_ID = 0x1A45DFA3;
+const MATROSKA_SEGMENT_ID = 0x18538067;
+const MATROSKA_SEEK_HEAD_ID = 0x114D9B74;
+const MATROSKA_SEEK_ID = 0x4DBB;
+const MATROSKA_SEEK_ELEMENT_ID = 0x53AB;
+const MATROSKA_SEEK_POSITION_ID = 0x53AC;
+const MATROSKA_CHAPTERS_ID = 0x1043A770;
+const MATROSKA_CLUSTER_ID = 0x1F43B675;
+const MATROSKA_EDITION_ENTRY_ID = 0x45B9;
+const MATROSKA_EDITION_FLAG_DEFAULT_ID = 0x45DB;
+const MATROSKA_CHAPTER_ATOM_ID = 0xB6;
+const MATROSKA_CHAPTER_TIME_START_ID = 0x91;
+const MATROSKA_CHAPTER_FLAG_HIDDEN_ID = 0x98;
+const MATROSKA_CHAPTER_DISPLAY_ID = 0x80;
+const MATROSKA_CHAP_STRING_ID = 0x85;
+
+const textDecoder = new TextDecoder('utf-8');
+
+export interface ChapterByteSource {
+    size: number;
+    read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+interface Mp4Box {
+    type: string;
+    start: number;
+    headerSize: number;
+    size: number;
+}
+
+interface EbmlElement {
+    id: number;
+    dataStart: number;
+    size: number; // -1 when the element has an unknown size
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function readUint64(bytes: Uint8Array, offset: number): number {
+    return readUint32(bytes, offset) * 0x100000000 + readUint32(bytes, offset + 4);
+}
+
+function readUintBytes(bytes: Uint8Array, offset: number, length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+        value = value * 256 + bytes[offset + i];
+    }
+    return value;
+}
+
+function decodeText(bytes: Uint8Array): string {
+    return textDecoder.decode(bytes).replace(/\0+$/, '').trim();
+}
+
+export function normalizeChapters(chapters: MediaChapter[]): MediaChapter[] {
+    const sorted = chapters
+        .filter(chapter => Number.isFinite(chapter.start) && chapter.start >= 0)
+        .sort((a, b) => a.start - b.start);
+
+    const result: MediaChapter[] = [];
+    for (const chapter of sorted) {
+        const previous = result[result.length - 1];
+        if (previous && Math.abs(previous.start - chapter.start) < 0.001) continue;
+        result.push({ start: chapter.start, title: chapter.title || `Chapter ${result.length + 1}` });
+    }
+    return result;
+}
+
+export function parseChapterSidecar(text: string): MediaChapter[] {
+    const chapters: MediaChapter[] = [];
+    const ogmTimes = new Map<string, number>();
+    const ogmNames = new Map<string, string>();
+
+    const lines = text.replace(/^\uFEFF/, '').split(/\r\n?|\n/);
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        // OGM style, as written by mkvextract: "CHAPTER01=00:00:00.000" followed by "CHAPTER01NAME=Intro".
+        const ogmMatch = line.match(/^CHAPTER(\d+)(NAME)?=(.*)$/i);
+        if (ogmMatch) {
+            if (ogmMatch[2]) {
+                ogmNames.set(ogmMatch[1], ogmMatch[3].trim());
+            } else {
+                const start = parseSubtitleTimestamp(ogmMatch[3]);
+                if (start !== null) ogmTimes.set(ogmMatch[1], start);
+            }
+            continue;
+        }
+
+        // Plain style, as pasted from video descriptions: "1:02:03 Title", "[05:00] - Title" or "05:00.5 | Title".
+        const plainMatch = line.match(/^\[?((?:\d+:)?\d{1,2}:\d{1,2}(?:[.,]\d{1,3})?)\]?(?:\s*[-\u2013\u2014:|]\s*|\s+|$)(.*)$/);
+        if (!plainMatch) continue;
+
+        const start = parseSubtitleTimestamp(plainMatch[1]);
+        if (start === null) continue;
+        chapters.push({ start, title: plainMatch[2].trim() });
+    }
+
+    for (const [key, start] of ogmTimes) {
+        chapters.push({ start, title: ogmNames.get(key) || `Chapter ${parseInt(key, 10)}` });
+    }
+
+    return normalizeChapters(chapters);
+}
+
+export async function readContainerChapters(source: ChapterByteSource, extension: string): Promise<MediaChapter[]> {
+    const normalizedExtension = extension.toLowerCase();
+    if (MP4_CHAPTER_EXTENSIONS.includes(normalizedExtension)) {
+        return normalizeChapters(await readMp4Chapters(source));
+    }
+    if (MATROSKA_CHAPTER_EXTENSIONS.includes(normalizedExtension)) {
+        return normalizeChapters(await readMatroskaChapters(source));
+    }
+    return [];
+}
+
+function listMp4Boxes(bytes: Uint8Array, start: number, end: number): Mp4Box[] {
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = readUint32(bytes, offset);
+        const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+        let headerSize = 8;
+        if (size === 1) {
+            if (offset + 16 > end) break;
+            size = readUint64(bytes, offset + 8);
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize || offset + size > end) break;
+
+        boxes.push({ type, start: offset, headerSize, size });
+        offset += size;
+    }
+    return boxes;
+}
+
+function findMp4Box(bytes: Uint8Array, parent: Mp4Box, path: string[]): Mp4Box | null {
+    let current: Mp4Box | null = parent;
+    for (const type of path) {
+        if (!current) return null;
+        const children = listMp4Boxes(bytes, current.start + current.headerSize, current.start + current.size);
+        current = children.find(child => child.type === type) ?? null;
+    }
+    return current;
+}
+
+async function findTopLevelMp4Box(source: ChapterByteSource, type: string): Promise<Mp4Box | null> {
+    let offset = 0;
+    while (offset + 8 <= source.size) {
+        const header = await source.read(offset, 16);
+        if (header.length < 8) return null;
+
+        let size = readUint32(header, 0);
+        const boxType = String.fromCharCode(header[4], header[5], header[6], header[7]);
+        let headerSize = 8;
+        if (size === 1) {
+            if (header.length < 16) return null;
+            size = readUint64(header, 8);
+            headerSize = 16;
+        } else if (size === 0) {
+            size = source.size - offset;
+        }
+        if (size < headerSize) return null;
+
+        if (boxType === type) return { type, start: offset, headerSize, size };
+        offset += size;
+    }
+    return null;
+}
+
+async function readMp4Chapters(source: ChapterByteSource): Promise<MediaChapter[]> {
+    const moovLocation = await findTopLevelMp4Box(source, 'moov');
+    if (!moovLocation || moovLocation.size > MAX_MP4_MOOV_BYTES) return [];
+
+    const bytes = await source.read(moovLocation.start, moovLocation.size);
+    if (bytes.length < moovLocation.size) return [];
+    const moov: Mp4Box = { type: 'moov', start: 0, headerSize: moovLocation.headerSize, size: moovLocation.size };
+
+    // Nero chapters are cheap to read, but QuickTime chapter tracks are what Apple tools write for m4b.
+    const neroChapters = parseNeroChapters(bytes, findMp4Box(bytes, moov, ['udta', 'chpl']));
+    if (neroChapters.length > 0) return neroChapters;
+
+    return await readQuickTimeChapterTrack(source, bytes, moov);
+}
+
+function parseNeroChapters(bytes: Uint8Array, chpl: Mp4Box | null): MediaChapter[] {
+    if (!chpl) return [];
+
+    const end = chpl.start + chpl.size;
+    let offset = chpl.start + chpl.headerSize;
+    const version = bytes[offset];
+    offset += 4;
+    if (version > 0) offset += 4;
+    if (offset >= end) return [];
+
+    const count = bytes[offset];
+    offset += 1;
+
+    const chapters: MediaChapter[] = [];
+    for (let i = 0; i < count && offset + 9 <= end; i++) {
+        const start = readUint64(bytes, offset) / 10000000; // 100ns units
+        const titleLength = bytes[offset + 8];
+        offset += 9;
+        const title = decodeText(bytes.subarray(offset, Math.min(end, offset + titleLength)));
+        offset += titleLength;
+        chapters.push({ start, title });
+    }
+    return chapters;
+}
+
+function getChapterTrackIds(bytes: Uint8Array, traks: Mp4Box[]): number[] {
+    const ids: number[] = [];
+    for (const trak of traks) {
+        const chap = findMp4Box(bytes, trak, ['tref', 'chap']);
+        if (!chap) continue;
+        for (let offset = chap.start + chap.headerSize; offset + 4 <= chap.start + chap.size; offset += 4) {
+            ids.push(readUint32(bytes, offset));
+        }
+    }
+    return ids;
+}
+
+function readFullBoxVersionedField(bytes: Uint8Array, box: Mp4Box, version0Offset: number, version1Offset: number): number {
+    const contentStart = box.start + box.headerSize;
+    return bytes[contentStart] === 1
+        ? readUint32(bytes, contentStart + version1Offset)
+        : readUint32(bytes, contentStart + version0Offset);
+}
+
+async function readQuickTimeChapterTrack(source: ChapterByteSource, bytes: Uint8Array, moov: Mp4Box): Promise<MediaChapter[]> {
+    const traks = listMp4Boxes(bytes, moov.start + moov.headerSize, moov.start + moov.size).filter(box => box.type === 'trak');
+    const chapterTrackIds = getChapterTrackIds(bytes, traks);
+    if (chapterTrackIds.length === 0) return [];
+
+    const chapterTrak = traks.find(trak => {
+        const tkhd = findMp4Box(bytes, trak, ['tkhd']);
+        return tkhd ? chapterTrackIds.includes(readFullBoxVersionedField(bytes, tkhd, 12, 20)) : false;
+    });
+    if (!chapterTrak) return [];
+
+    const mdhd = findMp4Box(bytes, chapterTrak, ['mdia', 'mdhd']);
+    const stbl = findMp4Box(bytes, chapterTrak, ['mdia', 'minf', 'stbl']);
+    if (!mdhd || !stbl) return [];
+
+    const timescale = readFullBoxVersionedField(bytes, mdhd, 12, 20);
+    if (!timescale) return [];
+
+    const sampleStarts = readSampleStarts(bytes, findMp4Box(bytes, stbl, ['stts']));
+    const sampleSizes = readSampleSizes(bytes, findMp4Box(bytes, stbl, ['stsz']));
+    const sampleOffsets = readSampleOffsets(
+        bytes,
+        findMp4Box(bytes, stbl, ['stsc']),
+        findMp4Box(bytes, stbl, ['stco']) ?? findMp4Box(bytes, stbl, ['co64']),
+        sampleSizes
+    );
+
+    const chapters: MediaChapter[] = [];
+    const sampleCount = Math.min(sampleStarts.length, sampleSizes.length, sampleOffsets.length);
+    for (let i = 0; i < sampleCount; i++) {
+        // Each text sample starts with a 16-bit length, followed by the UTF-8 title and optional style atoms.
+        const sample = await source.read(sampleOffsets[i], Math.min(sampleSizes[i], 2 + MAX_CHAPTER_TITLE_BYTES));
+        if (sample.length < 2) continue;
+        const titleLength = readUint16(sample, 0);
+        chapters.push({
+            start: sampleStarts[i] / timescale,
+            title: decodeText(sample.subarray(2, 2 + titleLength))
+        });
+    }
+    return chapters;
+}
+
+function readSampleStarts(bytes: Uint8Array, stts: Mp4Box | null): number[] {
+    if (!stts) return [];
+
+    const end = stts.start + stts.size;
+    let offset = stts.start + stts.headerSize + 4;
+    if (offset + 4 > end) return [];
+    const entryCount = readUint32(bytes, offset);
+    offset += 4;
+
+    const starts: number[] = [];
+    let time = 0;
+    for (let i = 0; i < entryCount && offset + 8 <= end; i++, offset += 8) {
+        const sampleCount = readUint32(bytes, offset);
+        const sampleDelta = readUint32(bytes, offset + 4);
+        if (starts.length + sampleCount > MAX_CHAPTER_SAMPLES) return [];
+        for (let j = 0; j < sampleCount; j++) {
+            starts.push(time);
+            time += sampleDelta;
+        }
+        if (!Number.isSafeInteger(time)) return [];
+    }
+    return starts;
+}
+
+function readSampleSizes(bytes: Uint8Array, stsz: Mp4Box | null): number[] {
+    if (!stsz) return [];
+
+    const end = stsz.start + stsz.size;
+    let offset = stsz.start + stsz.headerSize + 4;
+    if (offset + 8 > end) return [];
+    const uniformSize = readUint32(bytes, offset);
+    const sampleCount = readUint32(bytes, offset + 4);
+    offset += 8;
+
+    // Without a uniform size every sample needs its own entry, so the box itself bounds the count.
+    if (sampleCount > MAX_CHAPTER_SAMPLES) return [];
+    if (!uniformSize && offset + sampleCount * 4 > end) return [];
+
+    const sizes: number[] = [];
+    for (let i = 0; i < sampleCount; i++) {
+        if (uniformSize) {
+            sizes.push(uniformSize);
+            continue;
+        }
+        sizes.push(readUint32(bytes, offset));
+        offset += 4;
+    }
+    return sizes;
+}
+
+function readSampleOffsets(bytes: Uint8Array, stsc: Mp4Box | null, chunkOffsetBox: Mp4Box | null, sampleSizes: number[]): number[] {
+    if (!stsc || !chunkOffsetBox) return [];
+
+    const is64Bit = chunkOffsetBox.type === 'co64';
+    const chunkOffsetEnd = chunkOffsetBox.start + chunkOffsetBox.size;
+    let chunkOffsetCursor = chunkOffsetBox.start + chunkOffsetBox.headerSize + 4;
+    const chunkCount = readUint32(bytes, chunkOffsetCursor);
+    chunkOffsetCursor += 4;
+
+    const chunkOffsets: number[] = [];
+    // Every chunk holds at least one sample, so chunks past the sample count are never read.
+    for (let i = 0; i < chunkCount && chunkOffsets.length < sampleSizes.length; i++) {
+        const entrySize = is64Bit ? 8 : 4;
+        if (chunkOffsetCursor + entrySize > chunkOffsetEnd) break;
+        chunkOffsets.push(is64Bit ? readUint64(bytes, chunkOffsetCursor) : readUint32(bytes, chunkOffsetCursor));
+        chunkOffsetCursor += entrySize;
+    }
+
+    const stscEnd = stsc.start + stsc.size;
+    let stscCursor = stsc.start + stsc.headerSize + 4;
+    const stscCount = readUint32(bytes, stscCursor);
+    stscCursor += 4;
+
+    const runs: { firstChunk: number; samplesPerChunk: number }[] = [];
+    for (let i = 0; i < stscCount && stscCursor + 12 <= stscEnd; i++, stscCursor += 12) {
+        runs.push({ firstChunk: readUint32(bytes, stscCursor), samplesPerChunk: readUint32(bytes, stscCursor + 4) });
+    }
+
+    const offsets: number[] = [];
+    let runIndex = 0;
+    for (let chunkIndex = 0; chunkIndex < chunkOffsets.length && offsets.length < sampleSizes.length; chunkIndex++) {
+        // stsc chunk numbers are 1-based and each run applies until the next run's first chunk.
+        while (runIndex + 1 < runs.length && runs[runIndex + 1].firstChunk <= chunkIndex + 1) {
+            runIndex++;
+        }
+        const samplesPerChunk = runs[runIndex]?.samplesPerChunk ?? 1;
+
+        let offset = chunkOffsets[chunkIndex];
+        for (let i = 0; i < samplesPerChunk && offsets.length < sampleSizes.length; i++) {
+            offsets.push(offset);
+            offset += sampleSizes[offsets.length - 1];
+        }
+    }
+    return offsets;
+}
+
+function readEbmlVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } | null {
+    const first = bytes[offset];
+    if (first === undefined || first === 0) return null;
+
+    let length = 1;
+    let mask = 0x80;
+    while (!(first & mask)) {
+        mask >>= 1;
+        length++;
+    }
+    if (offset + length > bytes.length) return null;
+
+    let value = keepMarker ? first : first & (mask - 1);
+    let allOnes = (first & (mask - 1)) === mask - 1;
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + bytes[offset + i];
+        if (bytes[offset + i] !== 0xFF) allOnes = false;
+    }
+
+    if (!keepMarker && allOnes) return { value: -1, length };
+    return { value, length };
+}
+
+function readEbmlElementHeader(bytes: Uint8Array, offset: number): EbmlElement | null {
+    const id = readEbmlVint(bytes, offset, true);
+    if (!id) return null;
+    const size = readEbmlVint(bytes, offset + id.length, false);
+    if (!size) return null;
+    return { id: id.value, dataStart: offset + id.length + size.length, size: size.value };
+}
+
+function listEbmlChildren(bytes: Uint8Array, start: number, end: number): EbmlElement[] {
+    const children: EbmlElement[] = [];
+    let offset = start;
+    while (offset < end) {
+        const element = readEbmlElementHeader(bytes, offset);
+        if (!element || element.size < 0 || element.dataStart + element.size > end) break;
+        children.push(element);
+        offset = element.dataStart + element.size;
+    }
+    return children;
+}
+
+async function readMatroskaChapters(source: ChapterByteSource): Promise<MediaChapter[]> {
+    const ebmlHeader = readEbmlElementHeader(await source.read(0, 16), 0);
+    if (!ebmlHeader || ebmlHeader.id !== EBML_HEADER_ID || ebmlHeader.size < 0) return [];
+
+    const segmentOffset = ebmlHeader.dataStart + ebmlHeader.size;
+    const segment = readEbmlElementHeader(await source.read(segmentOffset, 16), 0);
+    if (!segment || segment.id !== MATROSKA_SEGMENT_ID) return [];
+
+    const segmentDataStart = segmentOffset + segment.dataStart;
+    const segmentEnd = segment.size < 0 ? source.size : Math.min(source.size, segmentDataStart + segment.size);
+
+    // Walk the top-level elements until the first cluster; past that point the SeekHead is the only cheap way to find Chapters.
+    let chaptersPosition: number | null = null;
+    let offset = segmentDataStart;
+    while (offset < segmentEnd) {
+        const element = readEbmlElementHeader(await source.read(offset, 16), 0);
+        if (!element || element.size < 0) break;
+
+        const dataStart = offset + element.dataStart;
+        if (element.id === MATROSKA_CHAPTERS_ID) {
+            return await readMatroskaChaptersElement(source, dataStart, element.size);
+        }
+        if (element.id === MATROSKA_SEEK_HEAD_ID && element.size <= MAX_MATROSKA_CHAPTERS_BYTES) {
+            chaptersPosition = findSeekPosition(await source.read(dataStart, element.size), MATROSKA_CHAPTERS_ID) ?? chaptersPosition;
+        }
+        if (element.id === MATROSKA_CLUSTER_ID) break;
+
+        offset = dataStart + element.size;
+    }
+
+    if (chaptersPosition === null) return [];
+
+    const chaptersOffset = segmentDataStart + chaptersPosition;
+    const chaptersElement = readEbmlElementHeader(await source.read(chaptersOffset, 16), 0);
+    if (!chaptersElement || chaptersElement.id !== MATROSKA_CHAPTERS_ID || chaptersElement.size < 0) return [];
+
+    return await readMatroskaChaptersElement(source, chaptersOffset + chaptersElement.dataStart, chaptersElement.size);
+}
+
+function findSeekPosition(seekHead: Uint8Array, targetId: number): number | null {
+    for (const seek of listEbmlChildren(seekHead, 0, seekHead.length)) {
+        if (seek.id !== MATROSKA_SEEK_ID) continue;
+
+        let seekId: number | null = null;
+        let seekPosition: number | null = null;
+        for (const field of listEbmlChildren(seekHead, seek.dataStart, seek.dataStart + seek.size)) {
+            if (field.id === MATROSKA_SEEK_ELEMENT_ID) seekId = readUintBytes(seekHead, field.dataStart, field.size);
+            if (field.id === MATROSKA_SEEK_POSITION_ID) seekPosition = readUintBytes(seekHead, field.dataStart, field.size);
+        }
+        if (seekId === targetId && seekPosition !== null) return seekPosition;
+    }
+    return null;
+}
+
+async function readMatroskaChaptersElement(source: ChapterByteSource, dataStart: number, size: number): Promise<MediaChapter[]> {
+    if (size > MAX_MATROSKA_CHAPTERS_BYTES) return [];
+
+    const bytes = await source.read(dataStart, size);
+    const editions = listEbmlChildren(bytes, 0, bytes.length).filter(element => element.id === MATROSKA_EDITION_ENTRY_ID);
+    if (editions.length === 0) return [];
+
+    const isDefaultEdition = (edition: EbmlElement) => listEbmlChildren(bytes, edition.dataStart, edition.dataStart + edition.size)
+        .some(field => field.id === MATROSKA_EDITION_FLAG_DEFAULT_ID && readUintBytes(bytes, field.dataStart, field.size) === 1);
+    const edition = editions.find(isDefaultEdition) ?? editions[0];
+
+    const chapters: MediaChapter[] = [];
+    const atoms = listEbmlChildren(bytes, edition.dataStart, edition.dataStart + edition.size)
+        .filter(element => element.id === MATROSKA_CHAPTER_ATOM_ID);
+    for (const atom of atoms) {
+        let start: number | null = null;
+        let hidden = false;
+        let title = '';
+        for (const field of listEbmlChildren(bytes, atom.dataStart, atom.dataStart + atom.size)) {
+            if (field.id === MATROSKA_CHAPTER_TIME_START_ID) {
+                start = readUintBytes(bytes, field.dataStart, field.size) / 1e9; // nanoseconds
+            } else if (field.id === MATROSKA_CHAPTER_FLAG_HIDDEN_ID) {
+                hidden = readUintBytes(bytes, field.dataStart, field.size) === 1;
+            } else if (field.id === MATROSKA_CHAPTER_DISPLAY_ID && !title) {
+                const chapString = listEbmlChildren(bytes, field.dataStart, field.dataStart + field.size)
+                    .find(displayField => displayField.id === MATROSKA_CHAP_STRING_ID);
+                if (chapString) title = decodeText(bytes.subarray(chapString.dataStart, chapString.dataStart + chapString.size));
+            }
+        }
+        if (start !== null && !hidden) chapters.push({ start, title });
+    }
+    return chapters;
+}
@@ -0,0 +1,146 @@
+// Decoding resamples to this rate; K-weighting only cares about content well below it, and it keeps long files in memory.
+const ANALYSIS_SAMPLE_RATE = 16000;
+const BLOCK_SEGMENT_SECONDS = 0.1; // 400ms gating blocks with 75% overlap are built from 100ms segments
+const SEGMENTS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// ReplayGain 2.0 reference level, so stored gains stay comparable with other players.
+export const REPLAY_GAIN_REFERENCE_LUFS = -18;
+
+interface AnalysisWindow extends Window {
+    webkitOfflineAudioContext?: typeof OfflineAudioContext;
+}
+
+interface Biquad {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+export interface DecodedAudio {
+    numberOfChannels: number;
+    sampleRate: number;
+    length: number;
+    getChannelData(channel: number): Float32Array;
+}
+
+export async function measureIntegratedLoudness(encoded: ArrayBuffer): Promise<number | null> {
+    const analysisWindow = window as AnalysisWindow;
+    const OfflineContextCtor = window.OfflineAudioContext ?? analysisWindow.webkitOfflineAudioContext;
+    if (!OfflineContextCtor) {
+        throw new Error('OfflineAudioContext is not available');
+    }
+
+    const context = new OfflineContextCtor(1, 1, ANALYSIS_SAMPLE_RATE);
+    const decoded = await context.decodeAudioData(encoded);
+    return computeIntegratedLoudness(decoded);
+}
+
+export function computeReplayGain(integratedLoudness: number): number {
+    return REPLAY_GAIN_REFERENCE_LUFS - integratedLoudness;
+}
+
+// Coefficients from ITU-R BS.1770, re-derived for the actual sample rate the same way libebur128 does.
+function getKWeightingFilters(sampleRate: number): Biquad[] {
+    const shelfFrequency = 1681.974450955533;
+    const shelfGain = 3.999843853973347;
+    const shelfQ = 0.7071752369554196;
+    let k = Math.tan(Math.PI * shelfFrequency / sampleRate);
+    const vh = Math.pow(10, shelfGain / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    let a0 = 1 + k / shelfQ + k * k;
+    const shelf: Biquad = {
+        b0: (vh + vb * k / shelfQ + k * k) / a0,
+        b1: 2 * (k * k - vh) / a0,
+        b2: (vh - vb * k / shelfQ + k * k) / a0,
+        a1: 2 * (k * k - 1) / a0,
+        a2: (1 - k / shelfQ + k * k) / a0
+    };
+
+    const highPassFrequency = 38.13547087602444;
+    const highPassQ = 0.5003270373238773;
+    k = Math.tan(Math.PI * highPassFrequency / sampleRate);
+    a0 = 1 + k / highPassQ + k * k;
+    const highPass: Biquad = {
+        b0: 1,
+        b1: -2,
+        b2: 1,
+        a1: 2 * (k * k - 1) / a0,
+        a2: (1 - k / highPassQ + k * k) / a0
+    };
+
+    return [shelf, highPass];
+}
+
+function getChannelWeight(channel: number, numberOfChannels: number): number {
+    // 5.1 layout: L, R, C, LFE, Ls, Rs. The LFE channel is ignored and surrounds are boosted.
+    if (numberOfChannels === 6) {
+        if (channel === 3) return 0;
+        if (channel >= 4) return 1.41;
+    }
+    return 1;
+}
+
+export function computeIntegratedLoudness(audio: DecodedAudio): number | null {
+    const segmentLength = Math.max(1, Math.round(audio.sampleRate * BLOCK_SEGMENT_SECONDS));
+    const segmentCount = Math.floor(audio.length / segmentLength);
+    if (segmentCount < SEGMENTS_PER_BLOCK) return null;
+
+    const [shelf, highPass] = getKWeightingFilters(audio.sampleRate);
+    const weightedSegmentPower = new Float64Array(segmentCount);
+
+    for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+        const weight = getChannelWeight(channel, audio.numberOfChannels);
+        if (weight === 0) continue;
+
+        const samples = audio.getChannelData(channel);
+        let shelfX1 = 0, shelfX2 = 0, shelfY1 = 0, shelfY2 = 0;
+        let passX1 = 0, passX2 = 0, passY1 = 0, passY2 = 0;
+
+        for (let segment = 0; segment < segmentCount; segment++) {
+            let sumOfSquares = 0;
+            const end = (segment + 1) * segmentLength;
+            for (let i = segment * segmentLength; i < end; i++) {
+                const x = samples[i];
+                const shelfY = shelf.b0 * x + shelf.b1 * shelfX1 + shelf.b2 * shelfX2 - shelf.a1 * shelfY1 - shelf.a2 * shelfY2;
+                shelfX2 = shelfX1;
+                shelfX1 = x;
+                shelfY2 = shelfY1;
+                shelfY1 = shelfY;
+
+                const y = highPass.b0 * shelfY + highPass.b1 * passX1 + highPass.b2 * passX2 - highPass.a1 * passY1 - highPass.a2 * passY2;
+                passX2 = passX1;
+                passX1 = shelfY;
+                passY2 = passY1;
+                passY1 = y;
+
+                sumOfSquares += y * y;
+            }
+            weightedSegmentPower[segment] += weight * sumOfSquares / segmentLength;
+        }
+    }
+
+    const blockPowers: number[] = [];
+    for (let start = 0; start + SEGMENTS_PER_BLOCK <= segmentCount; start++) {
+        let power = 0;
+        for (let i = 0; i < SEGMENTS_PER_BLOCK; i++) {
+            power += weightedSegmentPower[start + i];
+        }
+        blockPowers.push(power / SEGMENTS_PER_BLOCK);
+    }
+
+    const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+    const meanPower = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+
+    const aboveAbsoluteGate = blockPowers.filter(power => power > 0 && toLoudness(power) > ABSOLUTE_GATE_LUFS);
+    if (aboveAbsoluteGate.length === 0) return null;
+
+    const relativeGate = toLoudness(meanPower(aboveAbsoluteGate)) + RELATIVE_GATE_LU;
+    const gated = aboveAbsoluteGate.filter(power => toLoudness(power) > relativeGate);
+    if (gated.length === 0) return null;
+
+    return toLoudness(meanPower(gated));
+}
@@ -1,17 +1,38 @@
-import { App, Plugin, PluginSettingTab, Setting, ItemView, WorkspaceLeaf, setIcon, Notice, TFolder, TFile, FuzzySuggestModal, TAbstractFile, Menu, Modal, Platform, debounce } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, ItemView, WorkspaceLeaf, setIcon, Notice, TFolder, TFile, FuzzySuggestModal, TAbstractFile, Menu, Modal, Platform, debounce, Editor, MarkdownView, ObsidianProtocolData, normalizePath, requestUrl, sanitizeHTMLToDom } from 'obsidian';
 // import ffmpegStatic from 'ffmpeg-static';
-import { MediaItem, CrossPlayerData, CrossPlayerSettings, DownloadStatus, ConsumptionStatBucket } from './types';
+import { MediaItem, MediaBookmark, MediaLoop, MediaChapter, CrossPlayerData, CrossPlayerSettings, FolderSpeedRule, FolderEqualizerRule, EqualizerPresetId, DownloadStatus, ConsumptionStatBucket, MediaSubscription, EpisodeMetadata } from './types';
 import Sortable from 'sortablejs';
+import { convertSrtToVtt, formatSubtitleLabel, parsePreferredLanguages, parseSidecarSubtitleName, pickPreferredSubtitleIndex, SidecarSubtitleInfo } from './subtitles';
+import { computeReplayGain, measureIntegratedLoudness, REPLAY_GAIN_REFERENCE_LUFS } from './loudness';
+import { applySyncedState, compactDeviceEvents, diffPlaybackState, findSyncedState, foldSyncEvents, parseSyncLog, PlaybackSnapshot, serializeSyncEvents, snapshotBeforeRestore, snapshotPlaybackState, SyncEvent, SYNC_LOG_VERSION } from './syncLog';
+import { DATA_BACKUP_EXTENSION, DATA_BACKUP_PREFIX, DataBackupInfo, diffQueueSnapshot, formatDataBackupName, parseDataBackupTimestamp } from './backups';
+import { getItemsRemovedByDelete } from './offline';
+import { parseFlatPlaylist, PlaylistEntry, PlaylistListing, toPlaylistFolderName } from './playlists';
+import { getEpisodeArchiveKey, getEpisodeFileName, getEpisodeSidecarPath, parseEpisodeSidecar, parsePodcastFeed, PodcastEpisode, PodcastFeed } from './podcasts';
+import { CHAPTER_SIDECAR_SUFFIX, ChapterByteSource, MATROSKA_CHAPTER_EXTENSIONS, MP4_CHAPTER_EXTENSIONS, parseChapterSidecar, readContainerChapters } from './chapters';
 
 interface ActiveDownload extends DownloadStatus {
     childProcess?: SpawnedProcess;
+    abort?: () => void; // stops an HTTP episode download
 }
 
 interface DeviceStatus {
     id: string;
     name: string;
-    freeSpace: number; // in bytes
+    freeSpace?: number; // in bytes, missing when the device can't measure it
+    freeSpaceIsEstimate?: boolean; // browser storage quota instead of real disk space
+    queueBytesAtHeartbeat?: number; // bytes of queue files present on the device when freeSpace was measured
+    keepsOfflineSubset?: boolean; // only syncs the items pinned with "Keep on This Device"
     timestamp: number;
+    pluginVersion?: string;
+    queueUpdatedAt?: number; // queue timestamp in the last data.json this device wrote
+    lastDataSavedAt?: number;
+}
+
+interface SyncIssue {
+    key: string;
+    message: string;
+    fix: string;
 }
 
 interface StoredManifestData {
@@ -45,6 +66,89 @@ interface ChildProcessModule {
     spawn: SpawnFunction;
 }
 
+interface HttpIncomingMessage {
+    statusCode?: number;
+    headers: Record<string, string | string[] | undefined>;
+    on(event: 'data', callback: (chunk: Uint8Array) => void): void;
+    on(event: 'end' | 'close', callback: () => void): void;
+    on(event: 'error', callback: (error: Error) => void): void;
+    pause(): void;
+    resume(): void;
+}
+
+interface HttpClientRequest {
+    on(event: 'error', callback: (error: Error) => void): void;
+    setTimeout(timeout: number, callback: () => void): void;
+    destroy(error?: Error): void;
+}
+
+interface HttpModule {
+    get(url: string, options: { headers?: Record<string, string> }, callback: (response: HttpIncomingMessage) => void): HttpClientRequest;
+}
+
+interface WriteStreamLike {
+    write(chunk: Uint8Array): boolean;
+    end(callback?: () => void): void;
+    on(event: 'error', callback: (error: Error) => void): void;
+    once(event: 'drain', callback: () => void): void;
+}
+
+interface FileHandleLike {
+    read(buffer: Uint8Array, offset: number, length: number, position: number): Promise<{ bytesRead: number }>;
+    close(): Promise<void>;
+}
+
+interface FsModule {
+    promises: {
+        open(path: string, flags: string): Promise<FileHandleLike>;
+        stat(path: string): Promise<{ size: number }>;
+        rename(oldPath: string, newPath: string): Promise<void>;
+        statfs?(path: string): Promise<{ bavail: number; bsize: number }>;
+    };
+    createWriteStream(path: string, options: { flags: string }): WriteStreamLike;
+}
+
+type OfflineSyncListFormat = 'stignore' | 'include' | 'exclude';
+
+interface StorageAuditEntry {
+    at: number;
+    device: string;
+    deviceName: string;
+    action: 'trash-completed' | 'pause-download' | 'refuse-file';
+    detail: string;
+    bytes?: number;
+}
+
+interface CachedSyncLog {
+    mtime: number;
+    size: number;
+    events: SyncEvent[];
+}
+
+interface SidecarSubtitle {
+    file: TFile;
+    info: SidecarSubtitleInfo;
+}
+
+interface CueTiming {
+    startTime: number;
+    endTime: number;
+    line: LineAndPositionSetting;
+    snapToLines: boolean;
+}
+
+interface TranscriptCue {
+    startTime: number;
+    endTime: number;
+    text: string;
+}
+
+interface SleepTimerChoice {
+    label: string;
+    minutes: number | null; // null means "end of current item"
+    cancel?: boolean;
+}
+
 interface AudioContextWindow extends Window {
     AudioContext?: typeof AudioContext;
     webkitAudioContext?: typeof AudioContext;
@@ -53,27 +157,98 @@ interface AudioContextWindow extends Window {
 
 const VIEW_TYPE_CROSS_PLAYER_LIST = "cross-player-list-view";
 const VIEW_TYPE_CROSS_PLAYER_MAIN = "cross-player-main-view";
+const VIEW_TYPE_CROSS_PLAYER_TRANSCRIPT = "cross-player-transcript-view";
+const PROTOCOL_ACTION = "cross-player";
+const SUBTITLE_OFFSET_STEP = 0.1;
+const SLEEP_FADE_SECONDS = 10;
+const CHAPTER_RESTART_THRESHOLD_SECONDS = 3;
+const SKIP_SILENCE_CHECK_INTERVAL_MS = 50;
+const SKIP_SILENCE_MIN_SECONDS = 0.6;
+const SKIP_SILENCE_PLAYBACK_RATE = 4;
+const MAX_LOUDNESS_ANALYSIS_BYTES = 100 * 1024 * 1024;
+const MAX_LOUDNESS_GAIN_DB = 12;
+const MIN_LOUDNESS_GAIN_DB = -20;
+const EQUALIZER_BANDS: { frequency: number; type: BiquadFilterType; label: string }[] = [
+    { frequency: 60, type: 'lowshelf', label: '60 Hz' },
+    { frequency: 230, type: 'peaking', label: '230 Hz' },
+    { frequency: 910, type: 'peaking', label: '910 Hz' },
+    { frequency: 3600, type: 'peaking', label: '3.6 kHz' },
+    { frequency: 14000, type: 'highshelf', label: '14 kHz' }
+];
+const EQUALIZER_PRESETS: Record<EqualizerPresetId, { label: string; gains: number[] }> = {
+    flat: { label: 'Flat', gains: [0, 0, 0, 0, 0] },
+    voice: { label: 'Voice', gains: [-6, -2, 3, 5, 1] },
+    bass: { label: 'Bass', gains: [6, 4, 0, -1, 0] },
+    night: { label: 'Night', gains: [-6, -2, 1, 2, -3] },
+    custom: { label: 'Custom', gains: [0, 0, 0, 0, 0] }
+};
+const MAX_IN_MEMORY_CHAPTER_SCAN_BYTES = 200 * 1024 * 1024;
+const HANDOFF_MIN_POSITION_DIFFERENCE_SECONDS = 5;
+const DEVICE_STATUS_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// Free space goes stale quickly, and a stale low reading can make the storage policy delete files.
+const DEVICE_STATUS_EXPIRY_MS = 12 * DEVICE_STATUS_REFRESH_INTERVAL_MS;
+const STORAGE_AUDIT_DIR_NAME = 'storage-audit';
+const MAX_STORAGE_AUDIT_ENTRIES_SHOWN = 200;
+const DOWNLOADS_STATE_DIR_NAME = 'downloads';
+const DOWNLOAD_ARCHIVE_FILE_NAME = 'download-archive.txt';
+const EPISODE_DOWNLOAD_IDLE_TIMEOUT_MS = 60 * 1000;
+const SUBSCRIPTION_CHECK_INTERVAL_CHOICES = [15, 30, 60, 180, 360, 720, 1440];
+const DATA_BACKUP_DIR_NAME = 'backups';
+const DATA_BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_DATA_BACKUPS = 20;
+const SYNC_LOG_DIR_NAME = 'sync-log';
+const SYNC_LOG_COMPACTION_THRESHOLD = 1000; // own events before compaction is considered; after that, twice the compacted size
+const SLEEP_TIMER_CHOICES: SleepTimerChoice[] = [
+    { label: '15 minutes', minutes: 15 },
+    { label: '30 minutes', minutes: 30 },
+    { label: '60 minutes', minutes: 60 },
+    { label: 'End of current item', minutes: null }
+];
 
 const DEFAULT_SETTINGS: CrossPlayerSettings = {
     watchedFolder: '',
     defaultPlaybackSpeed: 2.0,
+    folderSpeedRules: [],
     seekSecondsForward: 10,
     seekSecondsBackward: 10,
+    preferredSubtitleLanguages: '',
+    subtitleFontSizePercent: 100,
+    subtitleBackgroundOpacity: 80,
+    subtitleVerticalPosition: 100,
     youtubeDlpPath: 'yt-dlp',
     ffmpegPath: '',
     jsRuntimePath: '',
     downloadFolder: '',
     showMediaIndicator: true,
     storageLimitGB: 10,
+    storageReserveGB: 5,
+    autoTrashCompletedOverLimit: false,
+    pauseDownloadsOverLimit: false,
+    refuseFilesOverLimit: false,
+    maxConcurrentDownloads: 2,
+    downloadWindowEnabled: false,
+    downloadWindowStartHour: 1,
+    downloadWindowEndHour: 7,
+    subscriptions: [],
+    subscriptionCheckIntervalMinutes: 60,
+    subscriptionMaxNewEntries: 3,
     autoplayNext: true,
     showProgressColor: true,
     pauseOnMobileTap: true,
     wrapQueueText: false,
     volumeBoostPercent: 100,
-    soundNormalization: false
+    soundNormalization: false,
+    loudnessNormalization: false,
+    loudnessTargetLufs: -18,
+    skipSilence: false,
+    skipSilenceThresholdDb: -45,
+    equalizerPreset: 'flat',
+    customEqualizerGains: [0, 0, 0, 0, 0],
+    folderEqualizerRules: []
 }
 
 const LAST_WATCHED_FOLDER_KEY = 'cross-player:last-good-watched-folder';
+const OFFLINE_ITEMS_KEY_PREFIX = 'cross-player:offline-items:';
 const REQUIRED_PLUGIN_FILES = ['manifest.json', 'main.js'];
 const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'opus', 'm4a', 'm4b', 'weba', 'aac', 'flac', 'aif', 'aiff', 'caf'];
 const VIDEO_EXTENSIONS = ['mp4', 'webm', 'ogv', 'mkv', '3gp'];
@@ -83,8 +258,11 @@ export default class CrossPlayerPlugin extends Plugin {
     data: CrossPlayerData;
     listView: CrossPlayerListView | null = null;
     mainView: CrossPlayerMainView | null = null;
+    transcriptView: CrossPlayerTranscriptView | null = null;
     activeDownloads: ActiveDownload[] = [];
+    private isCheckingSubscriptions: boolean = false;
     debouncedReload: () => void = () => undefined;
+    debouncedPersistDownloads: () => void = () => undefined;
 
     deviceId: string = '';
     deviceName: string = '';
@@ -95,12 +273,27 @@ export default class CrossPlayerPlugin extends Plugin {
     lastSyncIssueKey: string = '';
     lastKnownDataMtime: number = 0;
     lastKnownDataSize: number = 0;
+    lastDataSavedAt: number = 0;
+    lastDeviceStatusAt: number = 0;
+    lastDataBackupAt: number = 0;
     isReloadingSyncedData: boolean = false;
+    private isUnloading: boolean = false;
     private saveDataChain: Promise<void> = Promise.resolve();
     private deferredMetadataPaths: Set<string> = new Set();
     private deferredMetadataTimer: number | null = null;
     private isHydratingDeferredMetadata: boolean = false;
     private pendingPlaybackStateKeys: Set<string> = new Set();
+    private loudnessAnalysisIds: Set<string> = new Set();
+    private failedLoudnessAnalysisIds: Set<string> = new Set();
+    private isAnalyzingQueueLoudness: boolean = false;
+    private isEnforcingStoragePolicy: boolean = false;
+    private refusedPaths: Set<string> = new Set();
+    private keptItemIds: Set<string> | null = null;
+    private syncedSnapshots: Map<string, PlaybackSnapshot> = new Map();
+    private syncLogCache: Map<string, CachedSyncLog> = new Map();
+    private syncLogSequence: number = 0;
+    private ownSyncLogCompactedSize: number = 0; // events left after the last compaction
+    private lastKnownSyncLogSignature: string = '';
 
     private getLocalStorage(): Storage | null {
         if (typeof window === 'undefined') return null;
@@ -142,6 +335,10 @@ export default class CrossPlayerPlugin extends Plugin {
 
     markPlaybackStateChanged(item: MediaItem, timestamp: number = Date.now()) {
         item.playbackUpdatedAt = Math.max(item.playbackUpdatedAt || 0, timestamp);
+        if (this.deviceId) {
+            item.playbackDeviceId = this.deviceId;
+            item.playbackDeviceName = this.deviceName;
+        }
         for (const key of this.getMediaItemKeys(item)) {
             this.pendingPlaybackStateKeys.add(key);
         }
@@ -151,7 +348,7 @@ export default class CrossPlayerPlugin extends Plugin {
         return this.getMediaItemKeys(item).some(key => this.pendingPlaybackStateKeys.has(key));
     }
 
-    private findMatchingQueueItem(queue: MediaItem[] | undefined, item: MediaItem): MediaItem | undefined {
+    private findMatchingQueueItem(queue: MediaItem[] | undefined, item: Pick<MediaItem, 'id' | 'path'>): MediaItem | undefined {
         return queue?.find(candidate => candidate.id === item.id)
             || queue?.find(candidate => candidate.path === item.path);
     }
@@ -161,7 +358,24 @@ export default class CrossPlayerPlugin extends Plugin {
             || a.status !== b.status
             || !!a.finished !== !!b.finished
             || !!a.countedAsConsumed !== !!b.countedAsConsumed
-            || (a.consumedAt || '') !== (b.consumedAt || '');
+            || (a.consumedAt || '') !== (b.consumedAt || '')
+            || (a.subtitleOffset || 0) !== (b.subtitleOffset || 0)
+            || (a.playbackSpeed || 0) !== (b.playbackSpeed || 0)
+            || (a.equalizerPreset || '') !== (b.equalizerPreset || '')
+            || this.getBookmarksSignature(a) !== this.getBookmarksSignature(b)
+            || this.getLoopsSignature(a) !== this.getLoopsSignature(b);
+    }
+
+    private getLoopsSignature(item: MediaItem): string {
+        return (item.loops ?? [])
+            .map(loop => `${loop.id}:${loop.start}:${loop.end}`)
+            .join('|');
+    }
+
+    private getBookmarksSignature(item: MediaItem): string {
+        return (item.bookmarks ?? [])
+            .map(bookmark => `${bookmark.id}:${bookmark.time}:${bookmark.note ?? ''}`)
+            .join('|');
     }
 
     private copyPlaybackState(target: MediaItem, source: MediaItem) {
@@ -170,7 +384,14 @@ export default class CrossPlayerPlugin extends Plugin {
         target.finished = source.finished;
         target.countedAsConsumed = source.countedAsConsumed;
         target.consumedAt = source.consumedAt;
+        target.bookmarks = source.bookmarks;
+        target.loops = source.loops;
+        target.subtitleOffset = source.subtitleOffset;
+        target.playbackSpeed = source.playbackSpeed;
+        target.equalizerPreset = source.equalizerPreset;
         target.playbackUpdatedAt = source.playbackUpdatedAt;
+        target.playbackDeviceId = source.playbackDeviceId;
+        target.playbackDeviceName = source.playbackDeviceName;
     }
 
     markQueueChanged() {
@@ -214,6 +435,18 @@ export default class CrossPlayerPlugin extends Plugin {
                     if (!diskItem.size && localItem.size) {
                         diskItem.size = localItem.size;
                     }
+
+                    if (!diskItem.chapters && localItem.chapters) {
+                        diskItem.chapters = localItem.chapters;
+                    }
+
+                    if (!diskItem.episode && localItem.episode) {
+                        diskItem.episode = localItem.episode;
+                    }
+
+                    if (diskItem.replayGainDb === undefined && localItem.replayGainDb !== undefined) {
+                        diskItem.replayGainDb = localItem.replayGainDb;
+                    }
                 }
                 this.data.queue = diskData.queue;
                 this.data.queueUpdatedAt = diskQueueUpdatedAt;
@@ -238,6 +471,18 @@ export default class CrossPlayerPlugin extends Plugin {
                     if (!localItem.size && diskItem.size) {
                         localItem.size = diskItem.size;
                     }
+
+                    if (!localItem.chapters && diskItem.chapters) {
+                        localItem.chapters = diskItem.chapters;
+                    }
+
+                    if (!localItem.episode && diskItem.episode) {
+                        localItem.episode = diskItem.episode;
+                    }
+
+                    if (localItem.replayGainDb === undefined && diskItem.replayGainDb !== undefined) {
+                        localItem.replayGainDb = diskItem.replayGainDb;
+                    }
                 }
             }
 
@@ -266,6 +511,16 @@ export default class CrossPlayerPlugin extends Plugin {
         return childProcessModule?.spawn ?? null;
     }
 
+    private getDesktopProcessEnv(): Record<string, string | undefined> {
+        // Fix PATH for macOS GUI
+        const env = { ...process.env };
+        if (Platform.isDesktop && process.platform === 'darwin') {
+            const extraPaths = ['/usr/local/bin', '/opt/homebrew/bin', '/usr/bin', '/bin', '/usr/sbin', '/sbin'];
+            env.PATH = extraPaths.join(':') + (env.PATH ? ':' + env.PATH : '');
+        }
+        return env;
+    }
+
     private getVaultBasePath(): string | null {
         const adapter = this.app.vault.adapter as Partial<VaultAdapterWithBasePath>;
         return typeof adapter.getBasePath === 'function' ? adapter.getBasePath() : null;
@@ -279,6 +534,60 @@ export default class CrossPlayerPlugin extends Plugin {
         return normalizedRelative ? `${normalizedBase}/${normalizedRelative}` : normalizedBase;
     }
 
+    // The offline subset is this device's choice, so it lives in local storage rather than data.json.
+    private getKeptItemIds(): Set<string> {
+        if (!this.keptItemIds) {
+            try {
+                const stored = this.getStoredString(`${OFFLINE_ITEMS_KEY_PREFIX}${this.deviceId}`);
+                this.keptItemIds = new Set(stored ? JSON.parse(stored) as string[] : []);
+            } catch (error) {
+                console.warn('[Cross Player] Failed to read offline items', error);
+                this.keptItemIds = new Set();
+            }
+        }
+        return this.keptItemIds;
+    }
+
+    isKeptOnDevice(item: MediaItem): boolean {
+        return this.getKeptItemIds().has(item.id);
+    }
+
+    isPresentLocally(item: MediaItem): boolean {
+        return this.app.vault.getAbstractFileByPath(item.path) instanceof TFile;
+    }
+
+    setKeptOnDevice(item: MediaItem, keep: boolean) {
+        const keptIds = this.getKeptItemIds();
+        if (keep) {
+            keptIds.add(item.id);
+        } else {
+            keptIds.delete(item.id);
+        }
+
+        // Drop ids that have left the queue so the list doesn't grow forever.
+        const queueIds = new Set(this.data.queue.map(queueItem => queueItem.id));
+        this.setStoredString(`${OFFLINE_ITEMS_KEY_PREFIX}${this.deviceId}`, JSON.stringify([...keptIds].filter(id => queueIds.has(id))));
+        this.listView?.refresh();
+    }
+
+    buildOfflineSyncList(format: OfflineSyncListFormat): string {
+        const kept = this.data.queue.filter(item => this.isKeptOnDevice(item)).map(item => item.path);
+        const skipped = this.data.queue.filter(item => !this.isKeptOnDevice(item)).map(item => item.path);
+
+        if (format === 'include') return kept.join('\n');
+        if (format === 'exclude') return skipped.join('\n');
+
+        // Syncthing applies the first matching pattern, so the exceptions go before the catch-all.
+        const watchedFolder = this.data.settings.watchedFolder;
+        const lines = [
+            `// Cross Player offline subset for ${this.deviceName} (${this.deviceId})`,
+            '// Paths are relative to the vault root.',
+            ...kept.map(path => `!/${path}`),
+            ...(watchedFolder ? [`/${watchedFolder}/**`] : skipped.map(path => `/${path}`))
+        ];
+        return lines.join('\n');
+    }
+
     getLastGoodWatchedFolder(): string {
         return this.getStoredString(LAST_WATCHED_FOLDER_KEY);
     }
@@ -360,21 +669,195 @@ export default class CrossPlayerPlugin extends Plugin {
         this.lastKnownDataSize = stat?.size ?? 0;
     }
 
+    getSyncLogDir() {
+        return `${this.manifest.dir}/${SYNC_LOG_DIR_NAME}`;
+    }
+
+    private getOwnSyncLogPath() {
+        return `${this.getSyncLogDir()}/${this.deviceId}.jsonl`;
+    }
+
+    private async getSyncLogFileStats(): Promise<{ path: string; mtime: number; size: number }[]> {
+        const adapter = this.app.vault.adapter;
+        const dir = this.getSyncLogDir();
+        try {
+            if (!(await adapter.exists(dir))) return [];
+
+            const listing = await adapter.list(dir);
+            const files: { path: string; mtime: number; size: number }[] = [];
+            for (const path of listing.files.filter(file => file.endsWith('.jsonl')).sort()) {
+                const stat = await adapter.stat(path);
+                if (stat) files.push({ path, mtime: stat.mtime, size: stat.size });
+            }
+            return files;
+        } catch (error) {
+            console.warn('[Cross Player] Failed to list sync logs', error);
+            return [];
+        }
+    }
+
+    private getSyncLogSignature(files: { path: string; mtime: number; size: number }[]): string {
+        return files.map(file => `${file.path}:${file.mtime}:${file.size}`).join('|');
+    }
+
+    // Each device only ever appends to its own log, so sync tools never have two writers for the same file.
+    private async appendLocalPlaybackEvents() {
+        if (!this.data?.queue) return;
+        if (!this.deviceId) await this.loadDeviceId();
+
+        const now = Date.now();
+        const events: SyncEvent[] = [];
+        for (const item of this.data.queue) {
+            const previous = this.syncedSnapshots.get(item.id);
+            // Items this device hasn't seen settle yet only get a baseline; their current state came from elsewhere.
+            if (!previous) {
+                this.syncedSnapshots.set(item.id, snapshotPlaybackState(item));
+                continue;
+            }
+
+            const changes = diffPlaybackState(previous, item);
+            if (changes.length === 0) continue;
+
+            const at = this.hasPendingPlaybackStateChange(item) && item.playbackUpdatedAt ? item.playbackUpdatedAt : now;
+            for (const change of changes) {
+                events.push({
+                    v: SYNC_LOG_VERSION,
+                    device: this.deviceId,
+                    seq: this.syncLogSequence++,
+                    at,
+                    itemId: item.id,
+                    path: item.path,
+                    ...change
+                });
+            }
+            this.syncedSnapshots.set(item.id, snapshotPlaybackState(item));
+        }
+
+        if (events.length === 0) return;
+
+        const adapter = this.app.vault.adapter;
+        const logPath = this.getOwnSyncLogPath();
+        try {
+            const dir = this.getSyncLogDir();
+            if (!(await adapter.exists(dir))) {
+                await adapter.mkdir(dir);
+            }
+
+            if (await adapter.exists(logPath)) {
+                await adapter.append(logPath, serializeSyncEvents(events));
+            } else {
+                await adapter.write(logPath, serializeSyncEvents(events));
+            }
+        } catch (error) {
+            console.warn('[Cross Player] Failed to append to the sync log', error);
+        }
+    }
+
+    private async readSyncLogs(): Promise<Map<string, SyncEvent[]>> {
+        const adapter = this.app.vault.adapter;
+        const files = await this.getSyncLogFileStats();
+        const logs = new Map<string, SyncEvent[]>();
+
+        for (const file of files) {
+            const cached = this.syncLogCache.get(file.path);
+            if (cached && cached.mtime === file.mtime && cached.size === file.size) {
+                logs.set(file.path, cached.events);
+                continue;
+            }
+
+            try {
+                const events = parseSyncLog(await adapter.read(file.path));
+                this.syncLogCache.set(file.path, { mtime: file.mtime, size: file.size, events });
+                logs.set(file.path, events);
+            } catch (error) {
+                console.warn('[Cross Player] Failed to read sync log', file.path, error);
+            }
+        }
+
+        for (const path of [...this.syncLogCache.keys()]) {
+            if (!logs.has(path)) this.syncLogCache.delete(path);
+        }
+
+        this.lastKnownSyncLogSignature = this.getSyncLogSignature(files);
+        return logs;
+    }
+
+    private async compactOwnSyncLog(ownEvents: SyncEvent[]): Promise<SyncEvent[]> {
+        const compacted = compactDeviceEvents(ownEvents, this.data.queue);
+        this.ownSyncLogCompactedSize = compacted.length;
+        // Rewriting bumps the mtime and makes every other device reload, so only do it when it halves the log.
+        if (compacted.length * 2 > ownEvents.length) return ownEvents;
+
+        const logPath = this.getOwnSyncLogPath();
+        try {
+            await this.app.vault.adapter.write(logPath, serializeSyncEvents(compacted));
+            const stat = await this.app.vault.adapter.stat(logPath);
+            if (stat) {
+                this.syncLogCache.set(logPath, { mtime: stat.mtime, size: stat.size, events: compacted });
+            }
+            this.lastKnownSyncLogSignature = this.getSyncLogSignature(await this.getSyncLogFileStats());
+            return compacted;
+        } catch (error) {
+            console.warn('[Cross Player] Failed to compact the sync log', error);
+            return ownEvents;
+        }
+    }
+
+    // Playback state is whatever the logs of all devices fold to, so every device ends up with the same result
+    // no matter which data.json won the last sync.
+    async applySyncLogs(): Promise<boolean> {
+        if (!this.data?.queue) return false;
+        if (!this.deviceId) await this.loadDeviceId();
+
+        const logs = await this.readSyncLogs();
+        const ownPath = this.getOwnSyncLogPath();
+        let ownEvents = logs.get(ownPath) ?? [];
+        for (const event of ownEvents) {
+            this.syncLogSequence = Math.max(this.syncLogSequence, event.seq + 1);
+        }
+
+        if (ownEvents.length > Math.max(SYNC_LOG_COMPACTION_THRESHOLD, this.ownSyncLogCompactedSize * 2)) {
+            ownEvents = await this.compactOwnSyncLog(ownEvents);
+            logs.set(ownPath, ownEvents);
+        }
+
+        const states = foldSyncEvents([...logs.values()].flat());
+        let changed = false;
+        for (const item of this.data.queue) {
+            const state = findSyncedState(states, item);
+            if (state && applySyncedState(item, state)) {
+                changed = true;
+            }
+            this.syncedSnapshots.set(item.id, snapshotPlaybackState(item));
+        }
+        return changed;
+    }
+
     async reloadSyncedDataIfChanged(force: boolean = false) {
         if (this.isReloadingSyncedData) return;
 
         const stat = await this.getPluginDataStat();
         const nextMtime = stat?.mtime ?? 0;
         const nextSize = stat?.size ?? 0;
-        const changed = force || nextMtime !== this.lastKnownDataMtime || nextSize !== this.lastKnownDataSize;
+        const dataChanged = force || nextMtime !== this.lastKnownDataMtime || nextSize !== this.lastKnownDataSize;
+        const logsChanged = this.getSyncLogSignature(await this.getSyncLogFileStats()) !== this.lastKnownSyncLogSignature;
 
-        if (!changed) return;
+        if (!dataChanged && !logsChanged) return;
 
         this.isReloadingSyncedData = true;
         try {
-            await this.loadData();
-            await this.validatePluginSyncHealth();
-            await this.refreshTrackedDataFileState();
+            // Log local edits first so reloading data.json can't drop them.
+            await this.appendLocalPlaybackEvents();
+
+            if (dataChanged) {
+                // Keep the state from before the synced file in case the sync brought something bad.
+                await this.backUpDataIfDue();
+                await this.loadData();
+                await this.validatePluginSyncHealth();
+                await this.refreshTrackedDataFileState();
+            } else if (!(await this.applySyncLogs())) {
+                return;
+            }
 
             if (this.mainView) {
                 this.mainView.handleSyncedDataReload();
@@ -388,7 +871,137 @@ export default class CrossPlayerPlugin extends Plugin {
         }
     }
 
+    // The backups folder syncs like the sync log, so each device writes and prunes only its own subfolder.
+    getDataBackupDir(deviceId: string = this.deviceId) {
+        const root = `${this.manifest.dir}/${DATA_BACKUP_DIR_NAME}`;
+        return deviceId ? `${root}/${deviceId}` : root;
+    }
+
+    private collectDataBackups(files: string[], deviceId: string): DataBackupInfo[] {
+        const backups: DataBackupInfo[] = [];
+        for (const path of files) {
+            const fileName = path.split('/').pop() ?? '';
+            if (!fileName.startsWith(DATA_BACKUP_PREFIX) || !fileName.endsWith(DATA_BACKUP_EXTENSION)) continue;
+
+            const createdAt = parseDataBackupTimestamp(fileName);
+            if (createdAt !== null) backups.push({ path, createdAt, deviceId });
+        }
+        return backups;
+    }
+
+    // Lists the backups of one device, or of every device (and those from before backups were kept per device).
+    async listDataBackups(deviceId?: string): Promise<DataBackupInfo[]> {
+        const adapter = this.app.vault.adapter;
+        try {
+            const backups: DataBackupInfo[] = [];
+            if (deviceId) {
+                const dir = this.getDataBackupDir(deviceId);
+                if (await adapter.exists(dir)) {
+                    backups.push(...this.collectDataBackups((await adapter.list(dir)).files, deviceId));
+                }
+            } else {
+                const root = this.getDataBackupDir('');
+                if (!(await adapter.exists(root))) return [];
+
+                const listing = await adapter.list(root);
+                backups.push(...this.collectDataBackups(listing.files, ''));
+                for (const folder of listing.folders) {
+                    const folderDeviceId = folder.split('/').pop() ?? '';
+                    backups.push(...this.collectDataBackups((await adapter.list(folder)).files, folderDeviceId));
+                }
+            }
+            return backups.sort((a, b) => b.createdAt - a.createdAt);
+        } catch (error) {
+            console.warn('[Cross Player] Failed to list data backups', error);
+            return [];
+        }
+    }
+
+    async createDataBackup(): Promise<boolean> {
+        if (!this.data) return false;
+        if (!this.deviceId) await this.loadDeviceId();
+
+        const adapter = this.app.vault.adapter;
+        const dir = this.getDataBackupDir();
+        try {
+            if (!(await adapter.exists(dir))) {
+                await adapter.mkdir(dir);
+            }
+
+            await adapter.write(`${dir}/${formatDataBackupName(new Date())}`, JSON.stringify(this.data));
+            this.lastDataBackupAt = Date.now();
+
+            const backups = await this.listDataBackups(this.deviceId);
+            for (const backup of backups.slice(MAX_DATA_BACKUPS)) {
+                await adapter.remove(backup.path);
+            }
+            return true;
+        } catch (error) {
+            console.warn('[Cross Player] Failed to back up data.json', error);
+            return false;
+        }
+    }
+
+    private async backUpDataIfDue() {
+        if (!this.data?.queue?.length) return;
+        if (Date.now() - this.lastDataBackupAt < DATA_BACKUP_INTERVAL_MS) return;
+        await this.createDataBackup();
+    }
+
+    async readDataBackup(path: string): Promise<CrossPlayerData | null> {
+        try {
+            const backup = JSON.parse(await this.app.vault.adapter.read(path)) as CrossPlayerData;
+            return backup && Array.isArray(backup.queue) ? backup : null;
+        } catch (error) {
+            console.warn('[Cross Player] Failed to read data backup', path, error);
+            return null;
+        }
+    }
+
+    async restoreDataBackup(backup: CrossPlayerData, positionsOnly: boolean, includeSettings: boolean = false) {
+        // Back up the state being replaced so a restore can itself be undone.
+        await this.createDataBackup();
+
+        if (positionsOnly) {
+            for (const item of this.data.queue) {
+                const backupItem = this.findMatchingQueueItem(backup.queue, item);
+                if (!backupItem || (backupItem.position || 0) === (item.position || 0)) continue;
+
+                item.position = backupItem.position || 0;
+                this.markPlaybackStateChanged(item);
+            }
+        } else {
+            this.data.queue = backup.queue;
+            this.data.playbackSpeed = backup.playbackSpeed ?? this.data.playbackSpeed;
+            if (includeSettings) {
+                this.data.settings = Object.assign({}, DEFAULT_SETTINGS, backup.settings ?? {});
+            }
+            for (const item of this.data.queue) {
+                // Log the restored state afresh, or edits and removals logged since the backup would undo it.
+                this.syncedSnapshots.set(item.id, snapshotBeforeRestore(this.syncedSnapshots.get(item.id), item));
+                this.markPlaybackStateChanged(item);
+            }
+            this.markQueueChanged();
+        }
+
+        await this.saveData();
+        this.mainView?.handleSyncedDataReload();
+    }
+
     async validatePluginSyncHealth() {
+        const [issue] = await this.collectSyncIssues();
+        if (issue) {
+            await this.reportSyncIssue(issue.key, `Cross Player sync issue: ${issue.message}`);
+            return;
+        }
+
+        this.clearSyncIssue();
+    }
+
+    // Checks this device's plugin files. Passing the known device statuses also compares against other devices.
+    async collectSyncIssues(devices: DeviceStatus[] = []): Promise<SyncIssue[]> {
+        const issues: SyncIssue[] = [];
+
         try {
             const adapter = this.app.vault.adapter;
             const pluginDir = this.manifest.dir;
@@ -396,22 +1009,32 @@ export default class CrossPlayerPlugin extends Plugin {
             for (const fileName of REQUIRED_PLUGIN_FILES) {
                 const filePath = `${pluginDir}/${fileName}`;
                 if (!(await adapter.exists(filePath))) {
-                    await this.reportSyncIssue(
-                        `missing:${fileName}`,
-                        `Cross Player sync issue: ${fileName} is missing. The plugin may not be fully synced on this device.`
-                    );
-                    return;
+                    issues.push({
+                        key: `missing:${fileName}`,
+                        message: `${fileName} is missing. The plugin may not be fully synced on this device.`,
+                        fix: `Make sure your sync tool includes ${pluginDir}, or reinstall Cross Player on this device.`
+                    });
+                    return issues;
                 }
             }
 
             const manifestText = await adapter.read(`${pluginDir}/manifest.json`);
             const manifest = JSON.parse(manifestText) as StoredManifestData;
             if (!manifest?.id || !manifest?.version) {
-                await this.reportSyncIssue(
-                    'invalid:manifest',
-                    'Cross Player sync issue: manifest.json looks incomplete. The plugin may not be fully synced on this device.'
-                );
-                return;
+                issues.push({
+                    key: 'invalid:manifest',
+                    message: 'manifest.json looks incomplete. The plugin may not be fully synced on this device.',
+                    fix: 'Wait for sync to finish, or reinstall Cross Player on this device.'
+                });
+                return issues;
+            }
+
+            if (manifest.version !== this.manifest.version) {
+                issues.push({
+                    key: 'mismatch:manifest',
+                    message: `manifest.json on disk is version ${manifest.version}, but version ${this.manifest.version} is running.`,
+                    fix: 'Reload Obsidian, or disable and re-enable Cross Player, to run the synced version.'
+                });
             }
 
             const dataPath = `${pluginDir}/data.json`;
@@ -420,46 +1043,68 @@ export default class CrossPlayerPlugin extends Plugin {
 
             if (!hasDataFile) {
                 if (backupWatchedFolder || (this.data?.queue?.length ?? 0) > 0) {
-                    await this.reportSyncIssue(
-                        'missing:data',
-                        'Cross Player sync issue: data.json is missing, so synced settings may be incomplete on this device.'
-                    );
-                    return;
+                    issues.push({
+                        key: 'missing:data',
+                        message: 'data.json is missing, so synced settings may be incomplete on this device.',
+                        fix: 'Check that data.json is not excluded from sync, then run "Reload Data from Disk".'
+                    });
                 }
-
-                this.clearSyncIssue('missing:data');
-                return;
+                return issues;
             }
 
             const dataText = await adapter.read(dataPath);
             const parsed = (dataText.trim() ? JSON.parse(dataText) : {}) as Partial<CrossPlayerData>;
             if (typeof parsed !== 'object' || parsed === null) {
-                await this.reportSyncIssue(
-                    'invalid:data',
-                    'Cross Player sync issue: data.json could not be read correctly. Settings may be partially synced.'
-                );
-                return;
+                issues.push({
+                    key: 'invalid:data',
+                    message: 'data.json could not be read correctly. Settings may be partially synced.',
+                    fix: 'Wait for sync to finish. If it stays broken, restore data.json from your sync tool\'s history.'
+                });
+                return issues;
             }
 
             if (backupWatchedFolder && !parsed.settings?.watchedFolder) {
-                await this.reportSyncIssue(
-                    'incomplete:data',
-                    'Cross Player sync issue: data.json is missing the watched folder. A local backup was restored on this device.'
-                );
-                return;
+                issues.push({
+                    key: 'incomplete:data',
+                    message: 'data.json is missing the watched folder. A local backup was restored on this device.',
+                    fix: 'Set the watched folder again in settings so data.json is rewritten.'
+                });
             }
 
-            this.clearSyncIssue();
+            const diskQueueUpdatedAt = parsed.queueUpdatedAt || 0;
+            for (const device of devices) {
+                if (device.id === this.deviceId) continue;
+
+                if ((device.queueUpdatedAt || 0) > diskQueueUpdatedAt) {
+                    issues.push({
+                        key: `stale:data:${device.id}`,
+                        message: `data.json here is older than the queue ${device.name} wrote at ${new Date(device.queueUpdatedAt).toLocaleString()}.`,
+                        fix: `Let sync finish on both devices. If this stays, check that ${device.name} is uploading data.json.`
+                    });
+                }
+
+                if (device.pluginVersion && device.pluginVersion !== this.manifest.version) {
+                    issues.push({
+                        key: `mismatch:version:${device.id}`,
+                        message: `${device.name} runs Cross Player ${device.pluginVersion}, this device runs ${this.manifest.version}.`,
+                        fix: 'Update Cross Player to the same version on every device.'
+                    });
+                }
+            }
         } catch (error) {
             console.error('[Cross Player] Failed to validate plugin sync health', error);
-            await this.reportSyncIssue(
-                'check:failed',
-                'Cross Player could not verify its synced files. This device may have an incomplete plugin sync.'
-            );
+            issues.push({
+                key: 'check:failed',
+                message: 'the synced plugin files could not be verified. This device may have an incomplete plugin sync.',
+                fix: 'Check the developer console for details, then reopen Sync Status.'
+            });
         }
+
+        return issues;
     }
 
     async onload() {
+        await this.loadDeviceId();
         await this.loadData();
         await this.refreshTrackedDataFileState();
         await this.validatePluginSyncHealth();
@@ -493,12 +1138,7 @@ export default class CrossPlayerPlugin extends Plugin {
                         return;
                     }
 
-                    // Fix PATH for macOS GUI
-                    const env = { ...process.env };
-                    if (Platform.isDesktop && process.platform === 'darwin') {
-                        const extraPaths = ['/usr/local/bin', '/opt/homebrew/bin', '/usr/bin', '/bin', '/usr/sbin', '/sbin'];
-                        env.PATH = extraPaths.join(':') + (env.PATH ? ':' + env.PATH : '');
-                    }
+                    const env = this.getDesktopProcessEnv();
 
                     const { jsRuntimePath } = this.data.settings;
                     const testArgs = ['--version'];
@@ -557,6 +1197,11 @@ export default class CrossPlayerPlugin extends Plugin {
             (leaf) => new CrossPlayerMainView(leaf, this)
         );
 
+        this.registerView(
+            VIEW_TYPE_CROSS_PLAYER_TRANSCRIPT,
+            (leaf) => new CrossPlayerTranscriptView(leaf, this)
+        );
+
         this.addRibbonIcon('play-circle', 'Open Cross Player', () => {
             void this.activateListView();
         });
@@ -664,6 +1309,14 @@ export default class CrossPlayerPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'download-podcast-episodes',
+            name: 'Download Podcast Episodes',
+            callback: () => {
+                new PodcastEpisodesModal(this.app, this).open();
+            }
+        });
+
         this.addCommand({
             id: 'reload-data',
             name: 'Reload Data from Disk',
@@ -673,6 +1326,38 @@ export default class CrossPlayerPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'open-sync-status',
+            name: 'Open Sync Status',
+            callback: () => {
+                new SyncStatusModal(this.app, this).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'export-offline-sync-list',
+            name: 'Export Offline Sync List',
+            callback: () => {
+                new OfflineSyncListModal(this.app, this).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'open-storage-audit-log',
+            name: 'Open Storage Audit Log',
+            callback: () => {
+                new StorageAuditModal(this.app, this).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'restore-data-backup',
+            name: 'Restore Data from Backup',
+            callback: () => {
+                new DataBackupModal(this.app, this).open();
+            }
+        });
+
         this.addCommand({
             id: 'toggle-fullscreen',
             name: 'Toggle Fullscreen',
@@ -698,18 +1383,263 @@ export default class CrossPlayerPlugin extends Plugin {
         });
 
         this.addCommand({
-            id: 'switch-subtitle-track',
-            name: 'Switch Subtitle Track',
+            id: 'subtitles-earlier',
+            name: 'Shift Subtitles Earlier',
             callback: () => {
                 if (this.mainView) {
-                    this.mainView.switchSubtitleTrack();
+                    void this.mainView.shiftSubtitleOffset(-SUBTITLE_OFFSET_STEP);
                 } else {
                     new Notice("Open a media file first.");
                 }
             }
         });
 
-        this.debouncedReload = debounce(async () => {
+        this.addCommand({
+            id: 'subtitles-later',
+            name: 'Shift Subtitles Later',
+            callback: () => {
+                if (this.mainView) {
+                    void this.mainView.shiftSubtitleOffset(SUBTITLE_OFFSET_STEP);
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'reset-subtitle-offset',
+            name: 'Reset Subtitle Offset',
+            callback: () => {
+                if (this.mainView) {
+                    void this.mainView.resetSubtitleOffset();
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'set-loop-start',
+            name: 'Set Loop Point A',
+            callback: () => {
+                if (this.mainView) {
+                    this.mainView.setLoopStart();
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'set-loop-end',
+            name: 'Set Loop Point B',
+            callback: () => {
+                if (this.mainView) {
+                    this.mainView.setLoopEnd();
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'clear-loop',
+            name: 'Clear A-B Loop',
+            callback: () => {
+                if (this.mainView) {
+                    this.mainView.clearLoop();
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'save-loop',
+            name: 'Save Current A-B Loop',
+            callback: () => {
+                if (this.mainView) {
+                    void this.mainView.saveCurrentLoop();
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'open-saved-loops',
+            name: 'Open Saved A-B Loops',
+            callback: () => this.openSavedLoops()
+        });
+
+        this.addCommand({
+            id: 'delete-saved-loop',
+            name: 'Delete Saved A-B Loop',
+            callback: () => this.openSavedLoops('delete')
+        });
+
+        this.addCommand({
+            id: 'sleep-timer',
+            name: 'Sleep Timer',
+            callback: () => {
+                if (this.mainView) {
+                    new SleepTimerSuggestModal(this.app, this.mainView).open();
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'toggle-skip-silence',
+            name: 'Toggle Skip Silence',
+            callback: async () => {
+                this.data.settings.skipSilence = !this.data.settings.skipSilence;
+                await this.saveData(false);
+                this.mainView?.applyAudioSettings();
+                new Notice(`Skip silence ${this.data.settings.skipSilence ? 'on' : 'off'}`);
+            }
+        });
+
+        this.addCommand({
+            id: 'analyze-loudness',
+            name: 'Analyze Loudness of Current Item',
+            callback: () => {
+                void this.analyzeCurrentItemLoudness();
+            }
+        });
+
+        this.addCommand({
+            id: 'analyze-queue-loudness',
+            name: 'Analyze Loudness of Queue',
+            callback: () => {
+                void this.analyzeQueueLoudness();
+            }
+        });
+
+        this.addCommand({
+            id: 'choose-equalizer-preset',
+            name: 'Choose Equalizer Preset for This Item',
+            callback: () => {
+                const item = this.mainView?.currentItem;
+                if (item) {
+                    new EqualizerPresetSuggestModal(this.app, this, item).open();
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'remember-item-speed',
+            name: 'Remember Playback Speed for This Item',
+            callback: () => this.rememberCurrentItemSpeed()
+        });
+
+        this.addCommand({
+            id: 'clear-item-speed',
+            name: 'Clear Playback Speed for This Item',
+            callback: () => {
+                const item = this.mainView?.currentItem;
+                if (item) {
+                    void this.setItemSpeedOverride(item, null);
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'remember-folder-speed',
+            name: 'Remember Playback Speed for This Folder',
+            callback: () => this.rememberCurrentFolderSpeed()
+        });
+
+        this.addCommand({
+            id: 'next-chapter',
+            name: 'Next Chapter',
+            callback: () => {
+                if (this.mainView) {
+                    this.mainView.skipChapter(1);
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'previous-chapter',
+            name: 'Previous Chapter',
+            callback: () => {
+                if (this.mainView) {
+                    this.mainView.skipChapter(-1);
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'open-chapter-list',
+            name: 'Open Chapter List',
+            callback: () => this.openChapterList()
+        });
+
+        this.addCommand({
+            id: 'rescan-chapters',
+            name: 'Rescan Chapters',
+            callback: () => {
+                if (this.mainView) {
+                    void this.mainView.refreshChapters(true);
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'add-bookmark',
+            name: 'Add Bookmark at Current Time',
+            callback: () => this.addBookmarkAtCurrentTime()
+        });
+
+        this.addCommand({
+            id: 'switch-subtitle-track',
+            name: 'Switch Subtitle Track',
+            callback: () => {
+                if (this.mainView) {
+                    this.mainView.switchSubtitleTrack();
+                } else {
+                    new Notice("Open a media file first.");
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'open-transcript',
+            name: 'Open Transcript',
+            callback: () => {
+                void this.activateTranscriptView();
+            }
+        });
+
+        this.addCommand({
+            id: 'insert-timestamp-link',
+            name: 'Insert Timestamp Link',
+            callback: () => this.insertTimestampLink()
+        });
+
+        this.registerObsidianProtocolHandler(PROTOCOL_ACTION, (params) => {
+            void this.handleTimestampLink(params);
+        });
+
+        // Progress lines arrive constantly, so write at most once per interval instead of waiting for quiet.
+        this.debouncedPersistDownloads = debounce(() => {
+            void this.persistDownloads();
+        }, 2000, false);
+        await this.restoreDownloads();
+
+        this.debouncedReload = debounce(async () => {
             await this.reloadSyncedDataIfChanged();
         }, 1000, true);
 
@@ -725,6 +1655,13 @@ export default class CrossPlayerPlugin extends Plugin {
         this.registerInterval(window.setInterval(() => {
             this.debouncedReload();
         }, 5000));
+        // Picks up queued downloads once the download window opens.
+        this.registerInterval(window.setInterval(() => {
+            this.scheduleDownloads();
+        }, 60 * 1000));
+        this.registerInterval(window.setInterval(() => {
+            void this.checkSubscriptionsIfDue();
+        }, 60 * 1000));
 
         this.registerWatchers();
 
@@ -733,13 +1670,23 @@ export default class CrossPlayerPlugin extends Plugin {
         }
 
         // Initialize Device Status
-        await this.loadDeviceId();
         void this.updateDeviceStatus();
 
         // Removed interval check as requested, relying on file events
     }
 
-    onunload() {}
+    onunload() {
+        void this.persistDownloads();
+
+        // The next session resumes running downloads from their .part files, so this session's yt-dlp processes and
+        // episode requests must stop now, or two writers share one file. Their exit handlers must not save or
+        // schedule anything either.
+        this.isUnloading = true;
+        for (const download of this.activeDownloads) {
+            download.childProcess?.kill();
+            download.abort?.();
+        }
+    }
 
     async loadDeviceId() {
         // Try to load from localStorage
@@ -759,21 +1706,32 @@ export default class CrossPlayerPlugin extends Plugin {
         this.deviceName = name;
     }
 
-    async getFreeSpace(): Promise<number> {
-        // Try navigator.storage
+    async getFreeSpace(): Promise<{ bytes: number; isEstimate: boolean } | null> {
+        // Desktop can ask the file system for the space left on the vault's disk.
+        const fsModule = this.loadDesktopModule<FsModule>(['f', 's']);
+        const basePath = this.getVaultBasePath();
+        if (fsModule?.promises?.statfs && basePath) {
+            try {
+                const stats = await fsModule.promises.statfs(basePath);
+                return { bytes: stats.bavail * stats.bsize, isEstimate: false };
+            } catch (error) {
+                console.warn('[Cross Player] Failed to read free disk space', error);
+            }
+        }
+
+        // Mobile only exposes the browser storage quota, which roughly tracks free space.
         if (navigator.storage && navigator.storage.estimate) {
             try {
                 const estimate = await navigator.storage.estimate();
                 if (estimate.quota && estimate.usage !== undefined) {
-                    return estimate.quota - estimate.usage;
+                    return { bytes: estimate.quota - estimate.usage, isEstimate: true };
                 }
             } catch (e) {
                 console.error("Storage estimate failed", e);
             }
         }
 
-        // Fallback default 10GB
-        return 10 * 1024 * 1024 * 1024;
+        return null;
     }
 
     async updateDeviceStatus() {
@@ -783,15 +1741,20 @@ export default class CrossPlayerPlugin extends Plugin {
         const status: DeviceStatus = {
             id: this.deviceId,
             name: this.deviceName,
-            freeSpace: freeSpace,
-            timestamp: Date.now()
+            freeSpace: freeSpace?.bytes,
+            freeSpaceIsEstimate: freeSpace?.isEstimate || undefined,
+            queueBytesAtHeartbeat: this.getLocalQueueBytes(),
+            keepsOfflineSubset: this.getKeptItemIds().size > 0 || undefined,
+            timestamp: Date.now(),
+            pluginVersion: this.manifest.version,
+            queueUpdatedAt: this.data.queueUpdatedAt || 0,
+            lastDataSavedAt: this.lastDataSavedAt || undefined
         };
 
         // Determine folder path
-        const watchedFolder = this.data.settings.watchedFolder;
-        if (!watchedFolder) return;
-
-        const devicesDir = watchedFolder + "/.cross-player-devices";
+        const devicesDir = this.getDevicesDir();
+        if (!devicesDir) return;
+        this.lastDeviceStatusAt = status.timestamp;
 
         try {
             if (!(await this.app.vault.adapter.exists(devicesDir))) {
@@ -809,14 +1772,175 @@ export default class CrossPlayerPlugin extends Plugin {
         }
     }
 
+    getDevicesDir(): string {
+        const watchedFolder = this.data.settings.watchedFolder;
+        return watchedFolder ? watchedFolder + "/.cross-player-devices" : '';
+    }
+
+    async readDeviceStatuses(): Promise<DeviceStatus[]> {
+        const devicesDir = this.getDevicesDir();
+        if (!devicesDir) return [];
+
+        const adapter = this.app.vault.adapter;
+        const statuses: DeviceStatus[] = [];
+        try {
+            if (!(await adapter.exists(devicesDir))) return [];
+
+            const listing = await adapter.list(devicesDir);
+            for (const path of listing.files.filter(file => file.endsWith('.json'))) {
+                try {
+                    const status = JSON.parse(await adapter.read(path)) as DeviceStatus;
+                    if (status?.id) statuses.push(status);
+                } catch (error) {
+                    console.warn('[Cross Player] Failed to read device status', path, error);
+                }
+            }
+        } catch (error) {
+            console.warn('[Cross Player] Failed to list device statuses', error);
+        }
+
+        return statuses.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+    }
+
     async calculateDynamicLimit() {
-        // Use manual setting
-        const limitGB = this.data.settings.storageLimitGB || 10;
-        this.dynamicStorageLimit = limitGB * 1024 * 1024 * 1024;
-        this.limitingDevice = "Manual Setting";
+        const now = Date.now();
+        const freshDevices = (await this.readDeviceStatuses())
+            .filter(device => now - (device.timestamp || 0) <= DEVICE_STATUS_EXPIRY_MS && typeof device.freeSpace === 'number');
+
+        const reserveBytes = Math.max(0, this.data.settings.storageReserveGB || 0) * 1024 * 1024 * 1024;
+        const queueSize = this.getQueueStats().totalSize;
+        let limiting: { device: DeviceStatus; limit: number } | null = null;
+        for (const device of freshDevices) {
+            const headroom = Math.max(0, device.freeSpace - reserveBytes);
+            // Free space was measured while the device held queueBytesAtHeartbeat, so anything the queue gained
+            // since then eats into it, however old the heartbeat is. Devices on an offline subset only receive
+            // what they pin, so new downloads don't land there.
+            const limit = device.keepsOfflineSubset
+                ? queueSize + headroom
+                : (device.queueBytesAtHeartbeat ?? queueSize) + headroom;
+            if (!limiting || limit < limiting.limit) limiting = { device, limit };
+        }
+
+        if (limiting) {
+            this.dynamicStorageLimit = limiting.limit;
+            this.limitingDevice = limiting.device.id === this.deviceId ? `${limiting.device.name} (this device)` : limiting.device.name;
+        } else {
+            // Use manual setting until a device reports its free space
+            const limitGB = this.data.settings.storageLimitGB || 10;
+            this.dynamicStorageLimit = limitGB * 1024 * 1024 * 1024;
+            this.limitingDevice = "Manual Setting";
+        }
 
         // Update stats in queue view
         if (this.listView) this.listView.refresh();
+
+        await this.enforceStoragePolicy();
+    }
+
+    // What this device actually stores of the queue, which is less than the queue on an offline subset.
+    getLocalQueueBytes(): number {
+        let bytes = 0;
+        for (const item of this.data.queue) {
+            const file = this.app.vault.getAbstractFileByPath(item.path);
+            if (file instanceof TFile) bytes += file.stat.size;
+        }
+        return bytes;
+    }
+
+    isOverStorageLimit(extraBytes: number = 0): boolean {
+        if (this.dynamicStorageLimit <= 0) return false;
+        return this.getQueueStats().totalSize + extraBytes > this.dynamicStorageLimit;
+    }
+
+    private getStorageAuditPath() {
+        return `${this.manifest.dir}/${STORAGE_AUDIT_DIR_NAME}/${this.deviceId}.jsonl`;
+    }
+
+    // One file per device, like the sync log, so devices never edit the same file.
+    async recordStorageAudit(action: StorageAuditEntry['action'], detail: string, bytes?: number) {
+        if (!this.deviceId) await this.loadDeviceId();
+
+        const entry: StorageAuditEntry = { at: Date.now(), device: this.deviceId, deviceName: this.deviceName, action, detail, bytes };
+        const adapter = this.app.vault.adapter;
+        const logPath = this.getStorageAuditPath();
+        try {
+            const dir = `${this.manifest.dir}/${STORAGE_AUDIT_DIR_NAME}`;
+            if (!(await adapter.exists(dir))) {
+                await adapter.mkdir(dir);
+            }
+
+            if (await adapter.exists(logPath)) {
+                await adapter.append(logPath, JSON.stringify(entry) + '\n');
+            } else {
+                await adapter.write(logPath, JSON.stringify(entry) + '\n');
+            }
+        } catch (error) {
+            console.warn('[Cross Player] Failed to write storage audit log', error);
+        }
+    }
+
+    async readStorageAudit(): Promise<StorageAuditEntry[]> {
+        const adapter = this.app.vault.adapter;
+        const dir = `${this.manifest.dir}/${STORAGE_AUDIT_DIR_NAME}`;
+        const entries: StorageAuditEntry[] = [];
+        try {
+            if (!(await adapter.exists(dir))) return [];
+
+            const listing = await adapter.list(dir);
+            for (const path of listing.files.filter(file => file.endsWith('.jsonl'))) {
+                for (const line of (await adapter.read(path)).split('\n')) {
+                    if (!line.trim()) continue;
+                    try {
+                        entries.push(JSON.parse(line) as StorageAuditEntry);
+                    } catch {
+                        continue;
+                    }
+                }
+            }
+        } catch (error) {
+            console.warn('[Cross Player] Failed to read storage audit log', error);
+        }
+
+        return entries.sort((a, b) => b.at - a.at).slice(0, MAX_STORAGE_AUDIT_ENTRIES_SHOWN);
+    }
+
+    // Trashes completed items, oldest completion first, until the queue fits under the limit again.
+    async enforceStoragePolicy(extraBytes: number = 0): Promise<boolean> {
+        if (!this.data.settings.autoTrashCompletedOverLimit || this.isEnforcingStoragePolicy) return false;
+        if (!this.isOverStorageLimit(extraBytes)) return false;
+
+        this.isEnforcingStoragePolicy = true;
+        let trashedCount = 0;
+        try {
+            const candidates = this.data.queue
+                .filter(item => item.status === 'completed' && item.id !== this.mainView?.currentItem?.id)
+                .map(item => ({ item, file: this.app.vault.getAbstractFileByPath(item.path) }))
+                .filter((candidate): candidate is { item: MediaItem; file: TFile } => candidate.file instanceof TFile)
+                .sort((a, b) => (a.item.consumedAt || '').localeCompare(b.item.consumedAt || '') || a.file.stat.mtime - b.file.stat.mtime);
+
+            for (const { item, file } of candidates) {
+                if (!this.isOverStorageLimit(extraBytes)) break;
+
+                try {
+                    const size = file.stat.size;
+                    await this.permanentlyDeleteVaultFile(file);
+                    this.data.queue = this.data.queue.filter(queueItem => queueItem.id !== item.id);
+                    trashedCount++;
+                    await this.recordStorageAudit('trash-completed', `Trashed completed item ${item.path} to stay under the storage limit.`, size);
+                } catch (error) {
+                    console.error("Failed to trash", item.path, error);
+                }
+            }
+        } finally {
+            this.isEnforcingStoragePolicy = false;
+        }
+
+        if (trashedCount === 0) return false;
+
+        this.markQueueChanged();
+        await this.saveData();
+        new Notice(`Storage limit reached: moved ${trashedCount} completed item(s) to the trash.`);
+        return true;
     }
 
     async loadData() {
@@ -856,6 +1980,8 @@ export default class CrossPlayerPlugin extends Plugin {
         // If I just rely on DEFAULT_SETTINGS, existing users won't see a change if they have saved data.
         // I will trust that `loaded.playbackSpeed` is what the user *last used*.
         // If it's missing, it defaults to settings.defaultPlaybackSpeed.
+        this.syncedSnapshots.clear();
+        await this.applySyncLogs();
         await this.refreshTrackedDataFileState();
     }
 
@@ -900,6 +2026,26 @@ export default class CrossPlayerPlugin extends Plugin {
         delete item.consumedAt;
     }
 
+    // Only updates the data in memory; the next playback save persists it, as skips end every few seconds.
+    recordSilenceSkipped(item: MediaItem, seconds: number) {
+        if (!(seconds > 0)) return;
+
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (queueItem) {
+            queueItem.silenceSkippedSeconds = (queueItem.silenceSkippedSeconds || 0) + seconds;
+        }
+
+        const day = this.getTodayStatKey();
+        const bucket: ConsumptionStatBucket = this.data.consumptionStats?.[day] || {
+            seconds: 0,
+            completedCount: 0
+        };
+        bucket.silenceSkippedSeconds = (bucket.silenceSkippedSeconds || 0) + seconds;
+
+        this.data.consumptionStats = this.data.consumptionStats || {};
+        this.data.consumptionStats[day] = bucket;
+    }
+
     getConsumptionSummary(days?: number) {
         const stats = this.data.consumptionStats || {};
         const keys = Object.keys(stats).sort();
@@ -907,6 +2053,7 @@ export default class CrossPlayerPlugin extends Plugin {
 
         let seconds = 0;
         let completedCount = 0;
+        let silenceSkippedSeconds = 0;
         let activeDays = 0;
 
         for (const key of keys) {
@@ -921,21 +2068,30 @@ export default class CrossPlayerPlugin extends Plugin {
 
             seconds += bucket.seconds || 0;
             completedCount += bucket.completedCount || 0;
+            silenceSkippedSeconds += bucket.silenceSkippedSeconds || 0;
             if ((bucket.seconds || 0) > 0 || (bucket.completedCount || 0) > 0) {
                 activeDays += 1;
             }
         }
 
-        return { seconds, completedCount, activeDays, trackedDays: keys.length };
+        return { seconds, completedCount, silenceSkippedSeconds, activeDays, trackedDays: keys.length };
     }
 
     async saveData(refresh: boolean = true) {
         this.rememberQueueScrollPosition();
 
         const runSave = async (): Promise<void> => {
+            await this.appendLocalPlaybackEvents();
             await this.mergeFresherPlaybackStateFromDisk();
+            await this.applySyncLogs();
+            await this.backUpDataIfDue();
             await super.saveData(this.data);
+            this.lastDataSavedAt = Date.now();
             await this.refreshTrackedDataFileState();
+            // Saves are the device's heartbeat; playback saves often, so only refresh the status file now and then.
+            if (this.lastDataSavedAt - this.lastDeviceStatusAt > DEVICE_STATUS_REFRESH_INTERVAL_MS) {
+                this.debouncedUpdateDeviceStatus();
+            }
             this.pendingPlaybackStateKeys.clear();
             if (refresh && this.listView) this.listView.refresh();
         };
@@ -1121,6 +2277,7 @@ export default class CrossPlayerPlugin extends Plugin {
 
     getQueueStats() {
         let totalDuration = 0;
+        let adjustedDuration = 0;
         let totalSize = 0;
 
         for (const item of this.data.queue) {
@@ -1147,11 +2304,287 @@ export default class CrossPlayerPlugin extends Plugin {
                 // Subtract current position (if any) for both playing and pending items
                 // This allows ETC to account for partially watched items in the queue
                 const position = item.position || 0;
-                totalDuration += Math.max(0, item.duration - position);
+                const remaining = Math.max(0, item.duration - position);
+                totalDuration += remaining;
+                adjustedDuration += remaining / this.getPlaybackSpeed(item);
+            }
+        }
+
+        return { totalDuration, adjustedDuration, totalSize };
+    }
+
+    private findFolderRule<T extends { folder: string }>(rules: T[] | undefined, path: string): T | null {
+        let match: T | null = null;
+        for (const rule of rules ?? []) {
+            if (!rule.folder || !path.startsWith(`${rule.folder}/`)) continue;
+            // The deepest folder wins, so a rule on "Podcasts/Music" beats one on "Podcasts".
+            if (!match || rule.folder.length > match.folder.length) {
+                match = rule;
+            }
+        }
+        return match;
+    }
+
+    getFolderSpeedRule(path: string): FolderSpeedRule | null {
+        return this.findFolderRule(this.data.settings.folderSpeedRules, path);
+    }
+
+    getPlaybackSpeedSource(item: MediaItem | null | undefined): 'item' | 'folder' | 'global' {
+        if (item?.playbackSpeed) return 'item';
+        if (item && this.getFolderSpeedRule(item.path)) return 'folder';
+        return 'global';
+    }
+
+    getPlaybackSpeed(item: MediaItem | null | undefined): number {
+        if (item?.playbackSpeed) return item.playbackSpeed;
+        const rule = item ? this.getFolderSpeedRule(item.path) : null;
+        return rule?.speed || this.data.playbackSpeed || 1.0;
+    }
+
+    async setPlaybackSpeed(item: MediaItem | null, speed: number) {
+        // Speed buttons adjust whichever level is in effect, so a folder rule isn't silently shadowed by the global speed.
+        const source = this.getPlaybackSpeedSource(item);
+        const queueItem = item ? this.data.queue.find(i => i.id === item.id) : undefined;
+        if (source === 'item' && queueItem) {
+            queueItem.playbackSpeed = speed;
+            this.markPlaybackStateChanged(queueItem);
+        } else if (source === 'folder' && item) {
+            const rule = this.getFolderSpeedRule(item.path);
+            this.data.settings.folderSpeedRules = this.data.settings.folderSpeedRules
+                .map(candidate => candidate === rule ? { folder: candidate.folder, speed } : candidate);
+        } else {
+            this.data.playbackSpeed = speed;
+        }
+        await this.saveData(false);
+    }
+
+    async setItemSpeedOverride(item: MediaItem, speed: number | null) {
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (!queueItem) {
+            new Notice("Item not found in queue.");
+            return;
+        }
+
+        if (speed === null) {
+            delete queueItem.playbackSpeed;
+        } else {
+            queueItem.playbackSpeed = speed;
+        }
+        this.markPlaybackStateChanged(queueItem);
+        await this.saveData(false);
+        this.applyPlaybackSpeedChange();
+    }
+
+    async setFolderSpeedRule(folder: string, speed: number | null) {
+        const rules = (this.data.settings.folderSpeedRules ?? []).filter(rule => rule.folder !== folder);
+        if (speed !== null) {
+            rules.push({ folder, speed });
+            rules.sort((a, b) => a.folder.localeCompare(b.folder));
+        }
+        this.data.settings.folderSpeedRules = rules;
+        await this.saveData();
+        this.applyPlaybackSpeedChange();
+    }
+
+    applyPlaybackSpeedChange() {
+        this.mainView?.applyPlaybackSpeed();
+        this.listView?.updateSpeedDisplay();
+    }
+
+    rememberCurrentItemSpeed() {
+        const mainView = this.mainView;
+        if (!mainView || !mainView.currentItem) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        const speed = mainView.getNormalPlaybackRate() || this.getPlaybackSpeed(mainView.currentItem);
+        void this.setItemSpeedOverride(mainView.currentItem, speed).then(() => {
+            new Notice(`Speed ${speed.toFixed(1)}x remembered for this item`);
+        });
+    }
+
+    rememberCurrentFolderSpeed() {
+        const mainView = this.mainView;
+        if (!mainView || !mainView.currentItem) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(mainView.currentItem.path);
+        const folder = file?.parent;
+        if (!folder || folder.isRoot()) {
+            new Notice("This media is not inside a folder.");
+            return;
+        }
+
+        const speed = mainView.getNormalPlaybackRate() || this.getPlaybackSpeed(mainView.currentItem);
+        void this.setFolderSpeedRule(folder.path, speed).then(() => {
+            new Notice(`Speed ${speed.toFixed(1)}x remembered for ${folder.path}`);
+        });
+    }
+
+    getFolderEqualizerRule(path: string): FolderEqualizerRule | null {
+        return this.findFolderRule(this.data.settings.folderEqualizerRules, path);
+    }
+
+    getEqualizerPresetSource(item: MediaItem | null | undefined): 'item' | 'folder' | 'global' {
+        if (item?.equalizerPreset) return 'item';
+        if (item && this.getFolderEqualizerRule(item.path)) return 'folder';
+        return 'global';
+    }
+
+    getEqualizerPreset(item: MediaItem | null | undefined): EqualizerPresetId {
+        if (item?.equalizerPreset) return item.equalizerPreset;
+        const rule = item ? this.getFolderEqualizerRule(item.path) : null;
+        return rule?.preset ?? this.data.settings.equalizerPreset ?? 'flat';
+    }
+
+    getEqualizerGains(preset: EqualizerPresetId): number[] {
+        const gains = preset === 'custom' ? this.data.settings.customEqualizerGains : EQUALIZER_PRESETS[preset]?.gains;
+        return EQUALIZER_BANDS.map((_, index) => gains?.[index] ?? 0);
+    }
+
+    getEqualizerPresetLabel(preset: EqualizerPresetId): string {
+        return EQUALIZER_PRESETS[preset]?.label ?? preset;
+    }
+
+    async setItemEqualizerPreset(item: MediaItem, preset: EqualizerPresetId | null) {
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (!queueItem) {
+            new Notice("Item not found in queue.");
+            return;
+        }
+
+        if (preset === null) {
+            delete queueItem.equalizerPreset;
+        } else {
+            queueItem.equalizerPreset = preset;
+        }
+        this.markPlaybackStateChanged(queueItem);
+        await this.saveData(false);
+        this.mainView?.applyAudioSettings();
+    }
+
+    async setFolderEqualizerRule(folder: string, preset: EqualizerPresetId | null) {
+        const rules = (this.data.settings.folderEqualizerRules ?? []).filter(rule => rule.folder !== folder);
+        if (preset !== null) {
+            rules.push({ folder, preset });
+            rules.sort((a, b) => a.folder.localeCompare(b.folder));
+        }
+        this.data.settings.folderEqualizerRules = rules;
+        await this.saveData();
+        this.mainView?.applyAudioSettings();
+    }
+
+    getLoudnessGainDb(item: MediaItem | null | undefined): number {
+        if (!this.data.settings.loudnessNormalization || item?.replayGainDb === undefined) return 0;
+
+        // Stored gains target the ReplayGain reference, so a different target is just a constant shift.
+        const targetOffset = (this.data.settings.loudnessTargetLufs ?? REPLAY_GAIN_REFERENCE_LUFS) - REPLAY_GAIN_REFERENCE_LUFS;
+        return Math.min(MAX_LOUDNESS_GAIN_DB, Math.max(MIN_LOUDNESS_GAIN_DB, item.replayGainDb + targetOffset));
+    }
+
+    needsLoudnessAnalysis(item: MediaItem): boolean {
+        return item.replayGainDb === undefined
+            && !this.loudnessAnalysisIds.has(item.id)
+            && !this.failedLoudnessAnalysisIds.has(item.id);
+    }
+
+    async analyzeLoudness(item: MediaItem): Promise<number | null> {
+        if (this.loudnessAnalysisIds.has(item.id)) return null;
+
+        const file = this.app.vault.getAbstractFileByPath(item.path);
+        if (!(file instanceof TFile)) return null;
+
+        // Decoding holds the whole file as PCM, so very large files are skipped rather than risking memory pressure.
+        if (file.stat.size > MAX_LOUDNESS_ANALYSIS_BYTES) {
+            this.failedLoudnessAnalysisIds.add(item.id);
+            return null;
+        }
+
+        this.loudnessAnalysisIds.add(item.id);
+        try {
+            const loudness = await measureIntegratedLoudness(await this.app.vault.adapter.readBinary(file.path));
+            if (loudness === null) {
+                this.failedLoudnessAnalysisIds.add(item.id);
+                return null;
+            }
+
+            const gainDb = Math.round(computeReplayGain(loudness) * 100) / 100;
+            const queueItem = this.data.queue.find(i => i.id === item.id);
+            if (queueItem) {
+                queueItem.replayGainDb = gainDb;
+                await this.saveData(false);
+            }
+            if (this.mainView?.currentItem?.id === item.id) {
+                this.mainView.currentItem.replayGainDb = gainDb;
+                this.mainView.applyAudioSettings();
+            }
+            return gainDb;
+        } catch (error) {
+            console.warn('[Cross Player] Failed to analyze loudness', item.path, error);
+            this.failedLoudnessAnalysisIds.add(item.id);
+            return null;
+        } finally {
+            this.loudnessAnalysisIds.delete(item.id);
+        }
+    }
+
+    async analyzeCurrentItemLoudness() {
+        const item = this.mainView?.currentItem;
+        if (!item) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        this.failedLoudnessAnalysisIds.delete(item.id);
+        new Notice(`Analyzing loudness of ${item.name}...`);
+        const gainDb = await this.analyzeLoudness(item);
+        new Notice(gainDb === null
+            ? `Could not analyze loudness of ${item.name}.`
+            : `Replay gain for ${item.name}: ${gainDb > 0 ? '+' : ''}${gainDb.toFixed(1)} dB`);
+    }
+
+    async analyzeQueueLoudness() {
+        if (this.isAnalyzingQueueLoudness) {
+            new Notice("Loudness analysis is already running.");
+            return;
+        }
+
+        const items = this.data.queue.filter(item => item.status !== 'completed' && item.replayGainDb === undefined);
+        if (items.length === 0) {
+            new Notice("Every unfinished item already has a replay gain.");
+            return;
+        }
+
+        this.isAnalyzingQueueLoudness = true;
+        new Notice(`Analyzing loudness of ${items.length} item(s)...`);
+        let analyzed = 0;
+        try {
+            // One at a time: each decode can briefly need hundreds of megabytes.
+            for (const item of items) {
+                if (await this.analyzeLoudness(item) !== null) analyzed++;
             }
+        } finally {
+            this.isAnalyzingQueueLoudness = false;
+        }
+        new Notice(`Loudness analysis finished: ${analyzed} of ${items.length} item(s) analyzed.`);
+    }
+
+    formatPlaybackTime(seconds: number): string {
+        if (!isFinite(seconds) || seconds < 0) return "0:00";
+
+        const totalSeconds = Math.floor(seconds);
+        const hours = Math.floor(totalSeconds / 3600);
+        const minutes = Math.floor((totalSeconds % 3600) / 60);
+        const secs = totalSeconds % 60;
+
+        if (hours > 0) {
+            return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
         }
 
-        return { totalDuration, totalSize };
+        return `${minutes}:${secs.toString().padStart(2, '0')}`;
     }
 
     formatDuration(seconds: number): string {
@@ -1232,12 +2665,14 @@ export default class CrossPlayerPlugin extends Plugin {
             }
         }
 
-        const initialLength = this.data.queue.length;
-        this.data.queue = this.data.queue.filter(item => item.path !== path && !item.path.startsWith(path + "/"));
-
-        if (this.data.queue.length !== initialLength) {
+        const removed = new Set(getItemsRemovedByDelete(this.data.queue, path, this.getKeptItemIds()));
+        if (removed.size > 0) {
+            this.data.queue = this.data.queue.filter(item => !removed.has(item));
             this.markQueueChanged();
             await this.saveData();
+        } else {
+            // Items this device doesn't keep stay queued; the list now shows them as not on this device.
+            this.listView?.refresh();
         }
     }
 
@@ -1271,6 +2706,20 @@ export default class CrossPlayerPlugin extends Plugin {
         // Check if already in queue
         let existing = this.data.queue.find(item => item.path === file.path);
         if (!existing) {
+            if (this.isOverStorageLimit(file.stat.size)) {
+                await this.enforceStoragePolicy(file.stat.size);
+            }
+            if (this.data.settings.refuseFilesOverLimit && this.isOverStorageLimit(file.stat.size)) {
+                // Rescans revisit the file, so only log and notify the first refusal per session.
+                if (!this.refusedPaths.has(file.path)) {
+                    this.refusedPaths.add(file.path);
+                    await this.recordStorageAudit('refuse-file', `Did not add ${file.path} to the queue because it would exceed the storage limit.`, file.stat.size);
+                    new Notice(`Storage limit reached: ${file.name} was not added to the queue.`);
+                }
+                return false;
+            }
+            this.refusedPaths.delete(file.path);
+
             const deferDurationProbe = this.shouldDeferMetadataProbe();
             const duration = deferDurationProbe ? 0 : await this.getMediaDuration(file);
 
@@ -1293,8 +2742,13 @@ export default class CrossPlayerPlugin extends Plugin {
                 status: 'pending',
                 position: 0,
                 duration: duration,
-                size: file.stat.size
+                size: file.stat.size,
+                addedAt: Date.now()
             };
+            const episode = await this.readEpisodeSidecar(file);
+            if (episode) {
+                newItem.episode = episode;
+            }
             this.data.queue.push(newItem);
             if (deferDurationProbe) {
                 this.queueDeferredMetadataHydration(file.path);
@@ -1374,6 +2828,22 @@ export default class CrossPlayerPlugin extends Plugin {
         }
     }
 
+    async activateTranscriptView() {
+        const { workspace } = this.app;
+        let leaf: WorkspaceLeaf | null = null;
+        const leaves = workspace.getLeavesOfType(VIEW_TYPE_CROSS_PLAYER_TRANSCRIPT);
+
+        if (leaves.length > 0) {
+            leaf = leaves[0];
+        } else {
+            leaf = workspace.getRightLeaf(false);
+            if (!leaf) return;
+            await leaf.setViewState({ type: VIEW_TYPE_CROSS_PLAYER_TRANSCRIPT, active: true });
+        }
+        this.transcriptView = leaf.view instanceof CrossPlayerTranscriptView ? leaf.view : null;
+        await workspace.revealLeaf(leaf);
+    }
+
     async playMedia(item: MediaItem, autoPlay: boolean = false) {
         this.rememberQueueScrollPosition();
 
@@ -1415,6 +2885,22 @@ export default class CrossPlayerPlugin extends Plugin {
         }
     }
 
+    async playMediaAt(item: MediaItem, time: number) {
+        // Seek in place when the item is already loaded, so jumping between bookmarks doesn't reload the source.
+        if (this.mainView?.currentItem?.id === item.id && this.mainView.isCurrentPlaybackSource()) {
+            this.mainView.seekTo(time);
+            if (this.mainView.videoEl.paused) {
+                void this.mainView.videoEl.play();
+            }
+            return;
+        }
+
+        await this.playMedia(item, true);
+        if (this.mainView?.currentItem?.id === item.id) {
+            this.mainView.seekTo(time);
+        }
+    }
+
     async playNextUnread() {
         this.rememberQueueScrollPosition();
 
@@ -1680,437 +3166,1987 @@ export default class CrossPlayerPlugin extends Plugin {
         await this.setMediaItemAsUnread(this.mainView.currentItem);
     }
 
-    async downloadVideos(links: string[], quality: string, type: 'video' | 'audio') {
-        if (!Platform.isDesktop) {
-            new Notice("Downloading is only supported on Desktop.");
+    addBookmarkAtCurrentTime() {
+        const mainView = this.mainView;
+        if (!mainView || !mainView.currentItem || !mainView.isCurrentPlaybackSource() || !isFinite(mainView.videoEl.currentTime)) {
+            new Notice("Open a media file first.");
             return;
         }
-        const { downloadFolder, watchedFolder } = this.data.settings;
-        const targetFolder = downloadFolder || watchedFolder;
 
-        if (!targetFolder) {
-            new Notice("Please set a download folder or watched folder first.");
-            return;
-        }
+        new BookmarkNoteModal(this.app, this, mainView.currentItem, mainView.videoEl.currentTime).open();
+    }
 
-        // Resolve absolute path for the target folder
-        const absolutePath = this.buildAbsoluteVaultPath(targetFolder);
-        if (!absolutePath) {
-            new Notice("Could not resolve absolute path for vault.");
+    async addBookmark(item: MediaItem, time: number, note: string = '') {
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (!queueItem) {
+            new Notice("Item not found in queue.");
             return;
         }
 
-        if (!(await this.app.vault.adapter.exists(targetFolder))) {
-            new Notice(`Target folder does not exist: ${targetFolder}`);
-            return;
+        const bookmark: MediaBookmark = {
+            id: Math.random().toString(36).substring(2, 11),
+            time: Math.max(0, time),
+            createdAt: Date.now()
+        };
+        const trimmedNote = note.trim();
+        if (trimmedNote) {
+            bookmark.note = trimmedNote;
         }
 
-        new Notice(`Starting download of ${links.length} items...`);
+        queueItem.bookmarks = [...(queueItem.bookmarks ?? []), bookmark].sort((a, b) => a.time - b.time);
+        this.markPlaybackStateChanged(queueItem);
+        await this.saveData();
+        new Notice(`Bookmark added at ${this.formatPlaybackTime(bookmark.time)}`);
+    }
+
+    async removeBookmark(item: MediaItem, bookmarkId: string) {
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (!queueItem || !queueItem.bookmarks) return;
 
-        for (const link of links) {
-            if (!link.trim()) continue;
-            void this.startDownload(link.trim(), quality, type, absolutePath);
+        queueItem.bookmarks = queueItem.bookmarks.filter(bookmark => bookmark.id !== bookmarkId);
+        if (queueItem.bookmarks.length === 0) {
+            delete queueItem.bookmarks;
         }
+        this.markPlaybackStateChanged(queueItem);
+        await this.saveData();
     }
 
-    async startDownload(link: string, quality: string, type: 'video' | 'audio', cwd: string, existingId?: string) {
-        if (!Platform.isDesktop) return;
+    buildTimestampLink(item: MediaItem, time: number): string {
+        const seconds = Math.max(0, Math.floor(time));
+        const url = `obsidian://${PROTOCOL_ACTION}?path=${encodeURIComponent(item.path)}&t=${seconds}`;
+        return `[${this.formatPlaybackTime(seconds)}](${url})`;
+    }
 
-        const { youtubeDlpPath, ffmpegPath, jsRuntimePath } = this.data.settings;
-        const ytPath = youtubeDlpPath.trim();
+    getTargetMarkdownEditor(): Editor | null {
+        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (activeView) return activeView.editor;
 
-        const downloadId = existingId || Math.random().toString(36).substring(7);
+        // The player usually holds focus, so fall back to the most recently opened note that is still open in a leaf.
+        const markdownViews = this.app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view)
+            .filter((view): view is MarkdownView => view instanceof MarkdownView);
+        for (const path of this.app.workspace.getLastOpenFiles()) {
+            const view = markdownViews.find(candidate => candidate.file?.path === path);
+            if (view) return view.editor;
+        }
 
-        let downloadStatus: ActiveDownload;
+        return markdownViews[0]?.editor ?? null;
+    }
 
-        if (existingId) {
-            // Resume
-            const existing = this.activeDownloads.find(d => d.id === existingId);
-            if (existing) {
-                downloadStatus = existing;
-                downloadStatus.status = 'downloading';
-                downloadStatus.error = undefined;
-            } else {
-                // Should not happen usually
-                return;
-            }
-        } else {
-            downloadStatus = {
-                id: downloadId,
-                name: link,
-                progress: '0%',
-                speed: '0',
-                eta: '?',
-                status: 'downloading',
-                params: { url: link, quality, type }
-            };
-            this.activeDownloads.push(downloadStatus);
+    insertIntoActiveNote(text: string): boolean {
+        const editor = this.getTargetMarkdownEditor();
+        if (!editor) {
+            new Notice("Open a note to insert into first.");
+            return false;
         }
 
-        this.listView?.updateDownloadProgress();
-
-        const args = [
-            link,
-            '-o', '%(title)s.%(ext)s',
-            '--no-playlist',
-            '--newline',
-            '--restrict-filenames',
-            '--no-mtime',
-            '--extractor-args', 'youtube:player_client=android_vr',
-            '--js-runtimes', jsRuntimePath ? `node:${jsRuntimePath}` : 'node',
-            '--format-sort', 'ext:mp4:m4a'
-        ];
+        editor.replaceSelection(text);
+        return true;
+    }
 
-        if (ffmpegPath) {
-            args.push('--ffmpeg-location', ffmpegPath);
+    insertTimestampLink() {
+        const mainView = this.mainView;
+        if (!mainView || !mainView.currentItem || !mainView.isCurrentPlaybackSource() || !isFinite(mainView.videoEl.currentTime)) {
+            new Notice("Open a media file first.");
+            return;
         }
 
-        if (type === 'audio') {
-            args.push('-x', '--audio-format', 'mp3');
-        } else {
-            if (quality === 'best') {
-                args.push('-f', 'bestvideo[ext=mp4]+bestaudio[ext=m4a]/bestvideo+bestaudio/best');
-            } else if (quality === '1080p') {
-                args.push('-f', 'bestvideo[height<=1080][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=1080]+bestaudio/best[height<=1080]/best');
-            } else if (quality === '720p') {
-                args.push('-f', 'bestvideo[height<=720][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=720]+bestaudio/best[height<=720]/best');
-            } else if (quality === '480p') {
-                args.push('-f', 'bestvideo[height<=480][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=480]+bestaudio/best[height<=480]/best');
-            }
-            args.push('--merge-output-format', 'mp4');
-        }
+        this.insertIntoActiveNote(this.buildTimestampLink(mainView.currentItem, mainView.videoEl.currentTime));
+    }
 
-        try {
-            const spawn = this.getSpawnFunction();
-            if (!spawn) {
-                new Notice('Desktop process access is unavailable in this build.');
-                downloadStatus.status = 'error';
-                downloadStatus.error = 'Desktop process access unavailable';
-                this.listView?.updateDownloadProgress();
-                return;
-            }
-            console.log(`[Cross Player] Spawning in ${cwd}: ${ytPath} ${args.join(' ')}`);
+    async handleTimestampLink(params: ObsidianProtocolData) {
+        const path = params.path;
+        if (!path) {
+            new Notice("Cross Player link is missing a media path.");
+            return;
+        }
 
-            // Fix PATH for macOS GUI
-            const env = { ...process.env };
-            if (Platform.isDesktop && process.platform === 'darwin') {
-                const extraPaths = ['/usr/local/bin', '/opt/homebrew/bin', '/usr/bin', '/bin', '/usr/sbin', '/sbin'];
-                env.PATH = extraPaths.join(':') + (env.PATH ? ':' + env.PATH : '');
-            }
+        const item = this.findMatchingQueueItem(this.data.queue, { id: '', path });
+        if (!item) {
+            new Notice(`Media not found in queue: ${path}`);
+            return;
+        }
 
-            const child = spawn(ytPath, args, { cwd: cwd, env });
-            downloadStatus.childProcess = child;
+        const time = parseFloat(params.t);
+        await this.playMediaAt(item, isFinite(time) ? time : item.position || 0);
+    }
+
+    async saveLoop(item: MediaItem, start: number, end: number) {
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (!queueItem) {
+            new Notice("Item not found in queue.");
+            return;
+        }
+
+        const existing = queueItem.loops?.find(loop => Math.abs(loop.start - start) < 0.5 && Math.abs(loop.end - end) < 0.5);
+        if (existing) {
+            new Notice("This loop is already saved.");
+            return;
+        }
+
+        const loop: MediaLoop = {
+            id: Math.random().toString(36).substring(2, 11),
+            start,
+            end,
+            createdAt: Date.now()
+        };
+        queueItem.loops = [...(queueItem.loops ?? []), loop].sort((a, b) => a.start - b.start);
+        this.markPlaybackStateChanged(queueItem);
+        await this.saveData(false);
+        new Notice(`Loop saved: ${this.formatLoop(loop)}`);
+    }
+
+    async removeLoop(item: MediaItem, loopId: string) {
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (!queueItem || !queueItem.loops) return;
+
+        queueItem.loops = queueItem.loops.filter(loop => loop.id !== loopId);
+        if (queueItem.loops.length === 0) {
+            delete queueItem.loops;
+        }
+        this.markPlaybackStateChanged(queueItem);
+        await this.saveData(false);
+    }
+
+    formatLoop(loop: Pick<MediaLoop, 'start' | 'end'>): string {
+        return `${this.formatPlaybackTime(loop.start)} – ${this.formatPlaybackTime(loop.end)}`;
+    }
+
+    openSavedLoops(mode: 'play' | 'delete' = 'play') {
+        const item = this.mainView?.currentItem;
+        if (!item) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        if (!item.loops || item.loops.length === 0) {
+            new Notice("No saved loops for this media.");
+            return;
+        }
+
+        new SavedLoopSuggestModal(this.app, this, item, mode).open();
+    }
+
+    async loadChapters(item: MediaItem, force: boolean = false): Promise<MediaChapter[]> {
+        if (item.chapters && !force) return item.chapters;
+
+        const file = this.app.vault.getAbstractFileByPath(item.path);
+        if (!(file instanceof TFile)) return [];
+
+        let chapters = await this.readChapterSidecar(file);
+        if (chapters.length === 0) {
+            chapters = await this.readEmbeddedChapters(file);
+        }
+
+        item.chapters = chapters;
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (queueItem) {
+            queueItem.chapters = chapters;
+            await this.saveData(false);
+        }
+        return chapters;
+    }
+
+    private async readChapterSidecar(file: TFile): Promise<MediaChapter[]> {
+        const sidecarPath = file.parent && file.parent.path !== '/'
+            ? `${file.parent.path}/${file.basename}${CHAPTER_SIDECAR_SUFFIX}`
+            : `${file.basename}${CHAPTER_SIDECAR_SUFFIX}`;
+        const sidecar = this.app.vault.getAbstractFileByPath(sidecarPath);
+        if (!(sidecar instanceof TFile)) return [];
+
+        try {
+            return parseChapterSidecar(await this.app.vault.adapter.read(sidecar.path));
+        } catch (error) {
+            console.warn('[Cross Player] Failed to read chapter sidecar', sidecar.path, error);
+            return [];
+        }
+    }
+
+    private async readEpisodeSidecar(file: TFile): Promise<EpisodeMetadata | null> {
+        // Asks the adapter, as the sidecar is written just before the file and the vault may not have indexed it yet.
+        const sidecarPath = getEpisodeSidecarPath(file.path);
+        try {
+            if (!(await this.app.vault.adapter.exists(sidecarPath))) return null;
+            return parseEpisodeSidecar(await this.app.vault.adapter.read(sidecarPath));
+        } catch (error) {
+            console.warn('[Cross Player] Failed to read episode sidecar', sidecarPath, error);
+            return null;
+        }
+    }
+
+    private async readEmbeddedChapters(file: TFile): Promise<MediaChapter[]> {
+        const extension = file.extension.toLowerCase();
+        if (!MP4_CHAPTER_EXTENSIONS.includes(extension) && !MATROSKA_CHAPTER_EXTENSIONS.includes(extension)) {
+            return [];
+        }
+
+        try {
+            return await this.withChapterByteSource(file, source => readContainerChapters(source, extension)) ?? [];
+        } catch (error) {
+            console.warn('[Cross Player] Failed to read embedded chapters', file.path, error);
+            return [];
+        }
+    }
+
+    private async withChapterByteSource<T>(file: TFile, callback: (source: ChapterByteSource) => Promise<T>): Promise<T | null> {
+        const absolutePath = this.buildAbsoluteVaultPath(file.path);
+        const fsModule = absolutePath ? this.loadDesktopModule<FsModule>(['f', 's']) : null;
+        if (absolutePath && fsModule) {
+            // Chapter metadata can sit at the end of multi-gigabyte files, so desktop reads only the ranges it needs.
+            const handle = await fsModule.promises.open(absolutePath, 'r');
+            try {
+                return await callback({
+                    size: file.stat.size,
+                    read: async (offset, length) => {
+                        const buffer = new Uint8Array(Math.max(0, Math.min(length, file.stat.size - offset)));
+                        const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+                        return buffer.subarray(0, bytesRead);
+                    }
+                });
+            } finally {
+                await handle.close();
+            }
+        }
+
+        // Mobile has no ranged reads, so only scan files that comfortably fit in memory.
+        if (file.stat.size > MAX_IN_MEMORY_CHAPTER_SCAN_BYTES) return null;
+        const bytes = new Uint8Array(await this.app.vault.adapter.readBinary(file.path));
+        return await callback({
+            size: bytes.length,
+            read: async (offset, length) => bytes.subarray(offset, offset + length)
+        });
+    }
+
+    openChapterList() {
+        const item = this.mainView?.currentItem;
+        if (!item) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        if (!item.chapters || item.chapters.length === 0) {
+            new Notice("No chapters found for this media.");
+            return;
+        }
+
+        new ChapterSuggestModal(this.app, this, item).open();
+    }
+
+    async setSubtitleOffset(item: MediaItem, offset: number) {
+        const queueItem = this.data.queue.find(i => i.id === item.id);
+        if (!queueItem) return;
+
+        if (offset === 0) {
+            delete queueItem.subtitleOffset;
+        } else {
+            queueItem.subtitleOffset = offset;
+        }
+        this.markPlaybackStateChanged(queueItem);
+        await this.saveData(false);
+    }
+
+    async downloadVideos(links: string[], quality: string, type: 'video' | 'audio', options: { subfolder?: string; titles?: Record<string, string>; subscriptionId?: string; episodes?: Record<string, { episode: EpisodeMetadata; fileName: string }> } = {}) {
+        if (!Platform.isDesktop) {
+            new Notice("Downloading is only supported on Desktop.");
+            return;
+        }
+        const baseFolder = this.getDownloadTargetFolder();
+
+        if (!baseFolder) {
+            new Notice("Please set a download folder or watched folder first.");
+            return;
+        }
+        const targetFolder = options.subfolder ? `${baseFolder}/${options.subfolder}` : baseFolder;
+
+        // Resolve absolute path for the target folder
+        const absolutePath = this.buildAbsoluteVaultPath(targetFolder);
+        if (!absolutePath) {
+            new Notice("Could not resolve absolute path for vault.");
+            return;
+        }
+
+        if (!(await this.app.vault.adapter.exists(baseFolder))) {
+            new Notice(`Target folder does not exist: ${baseFolder}`);
+            return;
+        }
+        if (options.subfolder && !(await this.app.vault.adapter.exists(targetFolder))) {
+            await this.app.vault.adapter.mkdir(targetFolder);
+        }
+
+        if (this.isOverStorageLimit()) {
+            await this.enforceStoragePolicy();
+        }
+
+        if (this.data.settings.pauseDownloadsOverLimit && this.isOverStorageLimit()) {
+            // Queue them paused so they can be resumed from the download list once there is room.
+            const pausedLinks = links.map(link => link.trim()).filter(link => link);
+            for (const link of pausedLinks) {
+                this.activeDownloads.push({
+                    id: Math.random().toString(36).substring(7),
+                    name: options.titles?.[link] || link,
+                    progress: '0%',
+                    speed: '0',
+                    eta: '?',
+                    status: 'paused',
+                    params: { url: link, quality, type, targetFolder, subscriptionId: options.subscriptionId, ...options.episodes?.[link] }
+                });
+                await this.recordStorageAudit('pause-download', `Paused new download ${link} because the queue is over the storage limit.`);
+            }
+            this.handleDownloadsChanged();
+            new Notice(`Storage limit reached: ${pausedLinks.length} download(s) added paused.`);
+            return;
+        }
+
+        const newLinks = links.map(link => link.trim()).filter(link => link);
+        for (const link of newLinks) {
+            this.activeDownloads.push({
+                id: Math.random().toString(36).substring(7),
+                name: options.titles?.[link] || link,
+                progress: '0%',
+                speed: '0',
+                eta: '?',
+                status: 'queued',
+                params: { url: link, quality, type, targetFolder, subscriptionId: options.subscriptionId, ...options.episodes?.[link] }
+            });
+        }
+        this.handleDownloadsChanged();
+
+        new Notice(this.isWithinDownloadWindow()
+            ? `Queued ${newLinks.length} download(s).`
+            : `Queued ${newLinks.length} download(s) until ${this.formatDownloadWindowHour(this.data.settings.downloadWindowStartHour)}.`);
+        this.scheduleDownloads();
+    }
+
+    // Lists a playlist or channel without downloading anything, so the user can pick entries first.
+    async fetchPlaylistEntries(url: string, limit?: number): Promise<PlaylistListing> {
+        const spawn = this.getSpawnFunction();
+        if (!spawn) {
+            throw new Error('Desktop process access is unavailable in this build.');
+        }
+
+        const { youtubeDlpPath, jsRuntimePath } = this.data.settings;
+        const args = [
+            url,
+            '--flat-playlist',
+            '-J',
+            '--extractor-args', 'youtube:player_client=android_vr',
+            '--js-runtimes', jsRuntimePath ? `node:${jsRuntimePath}` : 'node'
+        ];
+        if (limit) {
+            args.push('--playlist-end', String(limit));
+        }
+
+        const output = await new Promise<string>((resolve, reject) => {
+            const child = spawn(youtubeDlpPath.trim(), args, { env: this.getDesktopProcessEnv() });
+            let stdout = '';
+            let stderr = '';
+            child.stdout?.on('data', (data: Uint8Array | string) => {
+                stdout += data.toString();
+            });
+            child.stderr?.on('data', (data: Uint8Array | string) => {
+                stderr += data.toString();
+            });
+            child.on('error', reject);
+            child.on('close', (code: number | null) => {
+                if (code === 0) {
+                    resolve(stdout);
+                } else {
+                    const lastLine = stderr.trim().split('\n').pop();
+                    reject(new Error(lastLine || `yt-dlp exited with code ${code}`));
+                }
+            });
+        });
+
+        return parseFlatPlaylist(output);
+    }
+
+    async downloadPlaylistEntries(listing: PlaylistListing, entries: PlaylistEntry[], quality: string, type: 'video' | 'audio', useSubfolder: boolean) {
+        const titles: Record<string, string> = {};
+        for (const entry of entries) {
+            titles[entry.url] = entry.title;
+        }
+
+        await this.downloadVideos(entries.map(entry => entry.url), quality, type, {
+            subfolder: useSubfolder ? toPlaylistFolderName(listing.title) : undefined,
+            titles
+        });
+    }
+
+    async fetchPodcastFeed(source: string): Promise<PodcastFeed> {
+        // Anything that isn't a web link is read from the vault, so a saved feed file works too.
+        const xml = /^https?:\/\//i.test(source)
+            ? (await requestUrl({ url: source })).text
+            : await this.app.vault.adapter.read(normalizePath(source));
+        return parsePodcastFeed(xml);
+    }
+
+    async downloadPodcastEpisodes(feed: PodcastFeed, episodes: PodcastEpisode[], subscriptionId?: string) {
+        const titles: Record<string, string> = {};
+        const episodeParams: Record<string, { episode: EpisodeMetadata; fileName: string }> = {};
+        for (const episode of episodes) {
+            titles[episode.enclosureUrl] = episode.title;
+            episodeParams[episode.enclosureUrl] = {
+                fileName: getEpisodeFileName(episode),
+                episode: {
+                    podcast: feed.title,
+                    guid: episode.guid,
+                    title: episode.title,
+                    publishedAt: episode.publishedAt,
+                    showNotes: episode.showNotes,
+                    link: episode.link
+                }
+            };
+        }
+
+        await this.downloadVideos(episodes.map(episode => episode.enclosureUrl), 'best', 'audio', {
+            subfolder: toPlaylistFolderName(feed.title),
+            titles,
+            subscriptionId,
+            episodes: episodeParams
+        });
+    }
+
+    private requestEpisodeStream(url: string, headers: Record<string, string>, redirectsLeft = 5): Promise<{ request: HttpClientRequest; response: HttpIncomingMessage }> {
+        const httpModule = url.startsWith('https:')
+            ? this.loadDesktopModule<HttpModule>(['h', 't', 't', 'p', 's'])
+            : this.loadDesktopModule<HttpModule>(['h', 't', 't', 'p']);
+        if (!httpModule) {
+            return Promise.reject(new Error('Desktop network access is unavailable in this build.'));
+        }
+
+        return new Promise((resolve, reject) => {
+            const request = httpModule.get(url, { headers: { 'User-Agent': 'Cross Player', ...headers } }, (response) => {
+                const location = response.headers.location;
+                const statusCode = response.statusCode ?? 0;
+                if (statusCode >= 300 && statusCode < 400 && typeof location === 'string') {
+                    // Podcast hosts chain through tracking redirects, often with relative locations.
+                    response.resume();
+                    if (redirectsLeft <= 0) {
+                        reject(new Error('Too many redirects'));
+                        return;
+                    }
+                    resolve(this.requestEpisodeStream(new URL(location, url).toString(), headers, redirectsLeft - 1));
+                    return;
+                }
+                resolve({ request, response });
+            });
+            // Covers connecting as well as a transfer that stops mid-way. Node only reports the idle socket, so the
+            // request is destroyed to fail the download and free its slot; retrying resumes from the .part file.
+            request.setTimeout(EPISODE_DOWNLOAD_IDLE_TIMEOUT_MS, () => request.destroy(new Error('Connection timed out')));
+            request.on('error', reject);
+        });
+    }
+
+    private writeEpisodeStream(download: ActiveDownload, response: HttpIncomingMessage, output: WriteStreamLike, resumeFrom: number): Promise<void> {
+        const contentLength = Number(response.headers['content-length']);
+        const total = contentLength > 0 ? resumeFrom + contentLength : 0;
+        let received = resumeFrom;
+        let speedWindowStart = Date.now();
+        let speedWindowBytes = 0;
+        let lastUpdate = 0;
+
+        return new Promise((resolve, reject) => {
+            let settled = false;
+            const fail = (error: Error) => {
+                if (settled) return;
+                settled = true;
+                output.end();
+                reject(error);
+            };
+
+            output.on('error', fail);
+            response.on('error', fail);
+            // A destroyed request (pause or cancel) closes the response without ending it.
+            response.on('close', () => fail(new Error('Download interrupted')));
+            response.on('end', () => {
+                if (settled) return;
+                settled = true;
+                output.end(() => resolve());
+            });
+
+            response.on('data', (chunk) => {
+                received += chunk.length;
+                speedWindowBytes += chunk.length;
+                if (!output.write(chunk)) {
+                    response.pause();
+                    output.once('drain', () => response.resume());
+                }
+
+                const now = Date.now();
+                if (now - lastUpdate < 500) return;
+                lastUpdate = now;
+
+                const bytesPerSecond = speedWindowBytes / Math.max(0.001, (now - speedWindowStart) / 1000);
+                if (now - speedWindowStart > 3000) {
+                    speedWindowStart = now;
+                    speedWindowBytes = 0;
+                }
+                if (total) {
+                    download.progress = `${(received / total * 100).toFixed(1)}%`;
+                    download.eta = bytesPerSecond > 0 ? this.formatPlaybackTime((total - received) / bytesPerSecond) : '?';
+                }
+                download.speed = `${(bytesPerSecond / (1024 * 1024)).toFixed(1)}MiB/s`;
+                this.handleDownloadsChanged();
+            });
+        });
+    }
+
+    // Podcast enclosures are plain files, so they are fetched directly and resumed with a Range request.
+    async startEpisodeDownload(download: ActiveDownload, cwd: string) {
+        const params = download.params;
+        const fsModule = this.loadDesktopModule<FsModule>(['f', 's']);
+        download.status = 'downloading';
+        download.error = undefined;
+        if (!params?.fileName || !fsModule) {
+            download.status = 'error';
+            download.error = 'Desktop file access unavailable';
+            this.handleDownloadsChanged();
+            this.scheduleDownloads();
+            return;
+        }
+
+        const destination = `${this.getDownloadTargetFolder(download)}/${params.fileName}`;
+        download.destination = destination;
+        this.handleDownloadsChanged();
+
+        const targetPath = `${cwd}/${params.fileName}`;
+        const partPath = `${targetPath}.part`;
+        let resumeFrom = 0;
+        try {
+            resumeFrom = (await fsModule.promises.stat(partPath)).size;
+        } catch {
+            resumeFrom = 0;
+        }
+
+        try {
+            const { request, response } = await this.requestEpisodeStream(params.url, resumeFrom > 0 ? { Range: `bytes=${resumeFrom}-` } : {});
+            download.abort = () => request.destroy();
+            if (download.status !== 'downloading' || !this.activeDownloads.includes(download)) {
+                // Paused or cancelled while connecting.
+                request.destroy();
+                return;
+            }
+
+            const statusCode = response.statusCode ?? 0;
+            if (statusCode === 416 && resumeFrom > 0) {
+                // The partial file is already complete.
+                response.resume();
+            } else if (statusCode === 200 || statusCode === 206) {
+                // A 200 means the server ignored the range, so start over.
+                const offset = statusCode === 206 ? resumeFrom : 0;
+                await this.writeEpisodeStream(download, response, fsModule.createWriteStream(partPath, { flags: offset > 0 ? 'a' : 'w' }), offset);
+            } else {
+                response.resume();
+                throw new Error(`HTTP ${statusCode}`);
+            }
+
+            // Written before the rename, so the vault event that adds the file to the queue finds it.
+            if (params.episode) {
+                await this.app.vault.adapter.write(getEpisodeSidecarPath(destination), JSON.stringify(params.episode, null, 2));
+            }
+            await fsModule.promises.rename(partPath, targetPath);
+            if (params.subscriptionId && params.episode) {
+                await this.recordDownloadArchive(getEpisodeArchiveKey(params.episode.guid));
+            }
+            this.markDownloadCompleted(download);
+        } catch (error) {
+            if (download.status === 'downloading') {
+                console.warn('[Cross Player] Episode download failed', error);
+                download.status = 'error';
+                download.error = error instanceof Error ? error.message : String(error);
+            }
+        } finally {
+            download.abort = undefined;
+            this.handleDownloadsChanged();
+            this.scheduleDownloads();
+        }
+    }
+
+    private markDownloadCompleted(download: ActiveDownload) {
+        download.status = 'completed';
+        download.progress = '100%';
+        console.log(`Download completed for: ${download.name}`);
+
+        // Refresh watched folder after a slight delay to let Obsidian see the file
+        const { watchedFolder } = this.data.settings;
+        if (watchedFolder) {
+            window.setTimeout(() => {
+                void this.scanFolder(watchedFolder);
+            }, 2000);
+        }
+
+        window.setTimeout(() => {
+            this.activeDownloads = this.activeDownloads.filter(d => d.id !== download.id);
+            this.handleDownloadsChanged();
+        }, 5000);
+    }
+
+    getDownloadArchivePath() {
+        return `${this.manifest.dir}/${DOWNLOAD_ARCHIVE_FILE_NAME}`;
+    }
+
+    // Shared by every device, so two desktops never fetch the same subscription entry.
+    async readDownloadArchive(): Promise<Set<string>> {
+        const archivePath = this.getDownloadArchivePath();
+        try {
+            if (!(await this.app.vault.adapter.exists(archivePath))) return new Set();
+            const text = await this.app.vault.adapter.read(archivePath);
+            return new Set(text.split('\n').map(line => line.trim()).filter(line => line));
+        } catch (error) {
+            console.warn('[Cross Player] Failed to read download archive', error);
+            return new Set();
+        }
+    }
+
+    async recordDownloadArchive(key: string) {
+        try {
+            await this.app.vault.adapter.append(this.getDownloadArchivePath(), `${key}\n`);
+        } catch (error) {
+            console.warn('[Cross Player] Failed to update download archive', error);
+        }
+    }
+
+    async checkSubscriptionsIfDue() {
+        if (!Platform.isDesktop || this.isCheckingSubscriptions) return;
+
+        const intervalMs = Math.max(1, this.data.settings.subscriptionCheckIntervalMinutes) * 60 * 1000;
+        const due = this.data.settings.subscriptions.filter(subscription =>
+            subscription.enabled && Date.now() - (subscription.lastCheckedAt || 0) >= intervalMs);
+        if (due.length === 0) return;
+
+        this.isCheckingSubscriptions = true;
+        try {
+            for (const subscription of due) {
+                await this.checkSubscription(subscription);
+            }
+        } finally {
+            this.isCheckingSubscriptions = false;
+        }
+    }
+
+    // Manual checks share the guard with the interval check, so the two never queue the same entries twice.
+    async checkSubscriptionNow(subscription: MediaSubscription): Promise<number | null> {
+        if (this.isCheckingSubscriptions) {
+            new Notice('Subscriptions are being checked already. Try again in a moment.');
+            return null;
+        }
+
+        this.isCheckingSubscriptions = true;
+        try {
+            return await this.checkSubscription(subscription);
+        } finally {
+            this.isCheckingSubscriptions = false;
+        }
+    }
+
+    // Returns the number of new entries queued, or null when the check failed.
+    private async checkSubscription(subscription: MediaSubscription): Promise<number | null> {
+        subscription.lastCheckedAt = Date.now();
+
+        let count: number;
+        try {
+            count = subscription.kind === 'podcast'
+                ? await this.queueNewPodcastEpisodes(subscription)
+                : await this.queueNewPlaylistEntries(subscription);
+        } catch (error) {
+            console.warn(`[Cross Player] Failed to check subscription ${subscription.name}`, error);
+            subscription.lastError = error instanceof Error ? error.message : String(error);
+            await this.saveData();
+            return null;
+        }
+
+        delete subscription.lastError;
+        await this.saveData();
+        return count;
+    }
+
+    private async queueNewPlaylistEntries(subscription: MediaSubscription): Promise<number> {
+        const listing = await this.fetchPlaylistEntries(subscription.url, this.data.settings.subscriptionMaxNewEntries);
+        const archive = await this.readDownloadArchive();
+        const pendingUrls = new Set(this.activeDownloads.map(download => download.params?.url));
+        const newEntries = listing.entries.filter(entry =>
+            !(entry.archiveKey && archive.has(entry.archiveKey)) && !pendingUrls.has(entry.url));
+
+        if (newEntries.length > 0) {
+            const titles: Record<string, string> = {};
+            for (const entry of newEntries) {
+                titles[entry.url] = entry.title;
+            }
+            await this.downloadVideos(newEntries.map(entry => entry.url), subscription.quality, subscription.type, {
+                subfolder: toPlaylistFolderName(subscription.name),
+                titles,
+                subscriptionId: subscription.id
+            });
+        }
+        return newEntries.length;
+    }
+
+    private async queueNewPodcastEpisodes(subscription: MediaSubscription): Promise<number> {
+        const feed = await this.fetchPodcastFeed(subscription.url);
+        const archive = await this.readDownloadArchive();
+        const pendingUrls = new Set(this.activeDownloads.map(download => download.params?.url));
+        const newEpisodes = feed.episodes
+            .slice(0, this.data.settings.subscriptionMaxNewEntries)
+            .filter(episode => !archive.has(getEpisodeArchiveKey(episode.guid)) && !pendingUrls.has(episode.enclosureUrl));
+
+        if (newEpisodes.length > 0) {
+            await this.downloadPodcastEpisodes(feed, newEpisodes, subscription.id);
+        }
+        return newEpisodes.length;
+    }
+
+    async addSubscription(url: string): Promise<MediaSubscription | null> {
+        if (!Platform.isDesktop) {
+            new Notice("Subscriptions are only checked on Desktop.");
+            return null;
+        }
+        if (this.data.settings.subscriptions.some(subscription => subscription.url === url)) {
+            new Notice('Already subscribed to this link.');
+            return null;
+        }
+
+        // Anything yt-dlp doesn't obviously own is tried as a podcast feed first.
+        const feed = /youtube\.com|youtu\.be/i.test(url) ? null : await this.fetchPodcastFeed(url).catch(() => null);
+        let name: string;
+        if (feed) {
+            name = feed.title;
+        } else {
+            try {
+                name = (await this.fetchPlaylistEntries(url, 1)).title;
+            } catch (error) {
+                new Notice(`Could not read subscription: ${error instanceof Error ? error.message : String(error)}`);
+                return null;
+            }
+        }
+
+        const subscription: MediaSubscription = {
+            id: Math.random().toString(36).substring(2, 10),
+            name,
+            url,
+            kind: feed ? 'podcast' : 'youtube',
+            type: feed ? 'audio' : 'video',
+            quality: 'best',
+            enabled: true
+        };
+        this.data.settings.subscriptions = [...this.data.settings.subscriptions, subscription];
+        await this.saveData();
+        return subscription;
+    }
+
+    async removeSubscription(id: string) {
+        this.data.settings.subscriptions = this.data.settings.subscriptions.filter(subscription => subscription.id !== id);
+        await this.saveData();
+    }
+
+    isWithinDownloadWindow(now: Date = new Date()): boolean {
+        const { downloadWindowEnabled, downloadWindowStartHour, downloadWindowEndHour } = this.data.settings;
+        if (!downloadWindowEnabled || downloadWindowStartHour === downloadWindowEndHour) return true;
+
+        const hour = now.getHours();
+        if (downloadWindowStartHour < downloadWindowEndHour) {
+            return hour >= downloadWindowStartHour && hour < downloadWindowEndHour;
+        }
+        // e.g. 22-6 wraps past midnight
+        return hour >= downloadWindowStartHour || hour < downloadWindowEndHour;
+    }
+
+    formatDownloadWindowHour(hour: number): string {
+        return `${String(hour).padStart(2, '0')}:00`;
+    }
+
+    // Starts queued downloads in order until the concurrency limit is reached.
+    scheduleDownloads() {
+        if (!Platform.isDesktop || this.isUnloading || !this.isWithinDownloadWindow()) return;
+
+        const maxConcurrent = Math.max(1, this.data.settings.maxConcurrentDownloads || 1);
+        let running = this.activeDownloads.filter(download => download.status === 'downloading' || download.status === 'converting').length;
+
+        for (const download of this.activeDownloads) {
+            if (running >= maxConcurrent) break;
+            if (download.status !== 'queued' || !download.params) continue;
+
+            const absolutePath = this.buildAbsoluteVaultPath(this.getDownloadTargetFolder(download));
+            if (!absolutePath) {
+                download.status = 'error';
+                download.error = 'Could not resolve download folder';
+                this.handleDownloadsChanged();
+                continue;
+            }
+
+            running++;
+            if (download.params.episode) {
+                void this.startEpisodeDownload(download, absolutePath);
+            } else {
+                void this.startDownload(download.params.url, download.params.quality, download.params.type, absolutePath, download.id);
+            }
+        }
+    }
+
+    prioritizeDownload(id: string) {
+        const download = this.activeDownloads.find(d => d.id === id);
+        if (!download || download.status !== 'queued') return;
+
+        const remaining = this.activeDownloads.filter(d => d.id !== id);
+        const firstQueuedIndex = remaining.findIndex(d => d.status === 'queued');
+        remaining.splice(firstQueuedIndex === -1 ? remaining.length : firstQueuedIndex, 0, download);
+        this.activeDownloads = remaining;
+        this.handleDownloadsChanged();
+    }
+
+    async startDownload(link: string, quality: string, type: 'video' | 'audio', cwd: string, existingId?: string) {
+        if (!Platform.isDesktop) return;
+
+        const { youtubeDlpPath, ffmpegPath, jsRuntimePath } = this.data.settings;
+        const ytPath = youtubeDlpPath.trim();
+
+        const downloadId = existingId || Math.random().toString(36).substring(7);
+
+        let downloadStatus: ActiveDownload;
+
+        if (existingId) {
+            // Resume
+            const existing = this.activeDownloads.find(d => d.id === existingId);
+            if (existing) {
+                downloadStatus = existing;
+                downloadStatus.status = 'downloading';
+                downloadStatus.error = undefined;
+            } else {
+                // Should not happen usually
+                return;
+            }
+        } else {
+            downloadStatus = {
+                id: downloadId,
+                name: link,
+                progress: '0%',
+                speed: '0',
+                eta: '?',
+                status: 'downloading',
+                params: { url: link, quality, type, targetFolder: this.getDownloadTargetFolder() }
+            };
+            this.activeDownloads.push(downloadStatus);
+        }
+
+        this.handleDownloadsChanged();
+
+        const args = [
+            link,
+            '-o', '%(title)s.%(ext)s',
+            '--no-playlist',
+            '--continue',
+            '--newline',
+            '--restrict-filenames',
+            '--no-mtime',
+            '--extractor-args', 'youtube:player_client=android_vr',
+            '--js-runtimes', jsRuntimePath ? `node:${jsRuntimePath}` : 'node',
+            '--format-sort', 'ext:mp4:m4a'
+        ];
+
+        if (ffmpegPath) {
+            args.push('--ffmpeg-location', ffmpegPath);
+        }
+
+        const archivePath = downloadStatus.params?.subscriptionId ? this.buildAbsoluteVaultPath(this.getDownloadArchivePath()) : null;
+        if (archivePath) {
+            args.push('--download-archive', archivePath);
+        }
+
+        if (type === 'audio') {
+            args.push('-x', '--audio-format', 'mp3');
+        } else {
+            if (quality === 'best') {
+                args.push('-f', 'bestvideo[ext=mp4]+bestaudio[ext=m4a]/bestvideo+bestaudio/best');
+            } else if (quality === '1080p') {
+                args.push('-f', 'bestvideo[height<=1080][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=1080]+bestaudio/best[height<=1080]/best');
+            } else if (quality === '720p') {
+                args.push('-f', 'bestvideo[height<=720][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=720]+bestaudio/best[height<=720]/best');
+            } else if (quality === '480p') {
+                args.push('-f', 'bestvideo[height<=480][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=480]+bestaudio/best[height<=480]/best');
+            }
+            args.push('--merge-output-format', 'mp4');
+        }
+
+        try {
+            const spawn = this.getSpawnFunction();
+            if (!spawn) {
+                new Notice('Desktop process access is unavailable in this build.');
+                downloadStatus.status = 'error';
+                downloadStatus.error = 'Desktop process access unavailable';
+                this.handleDownloadsChanged();
+                return;
+            }
+            console.log(`[Cross Player] Spawning in ${cwd}: ${ytPath} ${args.join(' ')}`);
+
+            const env = this.getDesktopProcessEnv();
+
+            const child = spawn(ytPath, args, { cwd: cwd, env });
+            downloadStatus.childProcess = child;
 
             child.stdout?.on('data', (data: Uint8Array | string) => {
                 const lines = data.toString().split('\n');
                 for (const line of lines) {
                     const trimmedLine = line.trim();
 
-                    // The first line might be the title due to --get-title
-                    if (trimmedLine && !trimmedLine.startsWith('[') && downloadStatus.name === link) {
-                        downloadStatus.name = trimmedLine;
-                        this.listView?.updateDownloadProgress();
+                    // The first line might be the title due to --get-title
+                    if (trimmedLine && !trimmedLine.startsWith('[') && downloadStatus.name === link) {
+                        downloadStatus.name = trimmedLine;
+                        this.handleDownloadsChanged();
+                    }
+
+                    if (line.includes('[download]')) {
+                        const percentMatch = line.match(/(\d+\.\d+)%/);
+                        const speedMatch = line.match(/at\s+([^\s]+)/);
+                        const etaMatch = line.match(/ETA\s+([^\s]+)/);
+
+                        if (percentMatch) {
+                            let percent = parseFloat(percentMatch[1]);
+                            // If audio/converting expected, scale download progress to 90% max
+                            if (type === 'audio') {
+                                percent = percent * 0.9;
+                            }
+                            downloadStatus.progress = percent.toFixed(1) + '%';
+                        }
+                        if (speedMatch) {
+                            downloadStatus.speed = speedMatch[1];
+                        }
+                        if (etaMatch) {
+                            downloadStatus.eta = etaMatch[1];
+                        }
+                        this.handleDownloadsChanged();
+                    }
+                    if (line.includes('[youtube]')) {
+                        // Extract title from youtube metadata line: [youtube] <id>: Downloading webpage
+                        // We need another way to get the title quickly.
+                        // Actually, yt-dlp prints the title if we use --print title.
+                        // But let's look for info logs.
+                    }
+                    if (line.includes('[info]')) {
+                        const titleMatch = line.match(/\[info\]\s+(.*?):\s+Downloading/);
+                        if (titleMatch && titleMatch[1]) {
+                            downloadStatus.name = titleMatch[1];
+                        }
+                    }
+                    if (line.includes('[download] Destination:')) {
+                        const name = line.split('Destination:')[1].trim();
+                        const targetFolder = downloadStatus.params?.targetFolder;
+                        if (name && targetFolder) {
+                            downloadStatus.destination = `${targetFolder}/${name}`;
+                        }
+                        // Only update if it's not a generic name
+                        if (name) {
+                            // Remove extension if possible
+                            const nameWithoutExt = name.replace(/\.[^/.]+$/, "");
+                            downloadStatus.name = nameWithoutExt;
+                        }
+                        this.handleDownloadsChanged();
+                    }
+                    // Conversion / Post-processing detection
+                    if (line.includes('[ExtractAudio]') || line.includes('[ffmpeg]') || line.includes('[Merger]')) {
+                        downloadStatus.status = 'converting';
+                        downloadStatus.progress = '95%'; // Jump to 95% during conversion
+
+                        const destMatch = line.match(/(?:into|to)\s+"(.*)"/);
+                        if (destMatch && destMatch[1]) {
+                            const nameWithoutExt = destMatch[1].replace(/\.[^/.]+$/, "");
+                            downloadStatus.name = nameWithoutExt;
+                        }
+
+                        this.handleDownloadsChanged();
+                    }
+                }
+            });
+
+            child.stderr?.on('data', (data: Uint8Array | string) => {
+                const errorMsg = data.toString();
+                console.error(`yt-dlp stderr: ${errorMsg}`);
+
+                // Detect specific errors
+                if (errorMsg.includes("HTTP Error 400") || errorMsg.includes("Precondition check failed") || errorMsg.includes("Unable to extract")) {
+                    downloadStatus.error = "Update yt-dlp!";
+                    downloadStatus.status = 'error';
+                    this.handleDownloadsChanged();
+                } else if (errorMsg.includes("ffmpeg-location") && errorMsg.includes("does not exist")) {
+                    // This is a warning, but good to know
+                    console.warn("FFmpeg path invalid");
+                }
+            });
+
+            child.on('error', (err: Error) => {
+                console.error("Failed to start process", err);
+                downloadStatus.status = 'error';
+                downloadStatus.error = err.message;
+                this.handleDownloadsChanged();
+            });
+
+            child.on('close', (code: number | null) => {
+                // If code is null/signal, it might be killed manually
+                if (code === 0) {
+                    this.markDownloadCompleted(downloadStatus);
+                } else if (downloadStatus.status !== 'paused' && code !== null) {
+                    // Only mark error if not paused and not manually killed (though killed usually gives null code or signal)
+                    // If we killed it for pause, we set status to 'paused' BEFORE calling kill, so we check that.
+                    downloadStatus.status = 'error';
+                    downloadStatus.error = `Exit code ${code}`;
+                }
+
+                downloadStatus.childProcess = undefined;
+                this.handleDownloadsChanged();
+                this.scheduleDownloads();
+            });
+
+        } catch (error) {
+            console.error("Download failed", error);
+            new Notice(`Failed to download: ${link}`);
+            downloadStatus.status = 'error';
+            downloadStatus.error = 'Failed to start';
+            this.handleDownloadsChanged();
+            this.scheduleDownloads();
+        }
+    }
+
+    cancelDownload(id: string) {
+        const dl = this.activeDownloads.find(d => d.id === id);
+        if (dl) {
+            if (dl.childProcess) {
+                dl.childProcess.kill();
+            }
+            dl.abort?.();
+            this.activeDownloads = this.activeDownloads.filter(d => d.id !== id);
+            this.handleDownloadsChanged();
+            new Notice("Download cancelled");
+        }
+    }
+
+    pauseDownload(id: string) {
+        const dl = this.activeDownloads.find(d => d.id === id);
+        if (dl && dl.status === 'queued') {
+            dl.status = 'paused';
+            this.handleDownloadsChanged();
+        } else if (dl && (dl.childProcess || dl.abort)) {
+            dl.status = 'paused';
+            dl.childProcess?.kill(); // Kill process to stop download
+            dl.abort?.();
+            this.handleDownloadsChanged();
+        }
+    }
+
+    retryDownload(id: string) {
+        const dl = this.activeDownloads.find(d => d.id === id);
+        if (dl && dl.status === 'error') {
+            // Retries go to the back of the queue like any new download.
+            this.activeDownloads = [...this.activeDownloads.filter(d => d.id !== id), dl];
+            dl.status = 'queued';
+            dl.error = undefined;
+            this.handleDownloadsChanged();
+            this.scheduleDownloads();
+        }
+    }
+
+    getDownloadTargetFolder(download?: DownloadStatus): string {
+        const { downloadFolder, watchedFolder } = this.data.settings;
+        return download?.params?.targetFolder || downloadFolder || watchedFolder;
+    }
+
+    handleDownloadsChanged() {
+        this.listView?.updateDownloadProgress();
+        this.debouncedPersistDownloads();
+    }
+
+    private getDownloadsStatePath() {
+        return `${this.manifest.dir}/${DOWNLOADS_STATE_DIR_NAME}/${this.deviceId}.json`;
+    }
+
+    // Downloads run on this device only, so each device keeps its own list next to the plugin data.
+    async persistDownloads() {
+        if (!Platform.isDesktop || !this.deviceId || this.isUnloading) return;
+
+        const downloads: DownloadStatus[] = this.activeDownloads
+            .filter(download => download.status !== 'completed')
+            .map(({ childProcess, abort, ...download }) => ({ ...download, updatedAt: Date.now() }));
+
+        const adapter = this.app.vault.adapter;
+        const statePath = this.getDownloadsStatePath();
+        try {
+            if (downloads.length === 0) {
+                if (await adapter.exists(statePath)) await adapter.remove(statePath);
+                return;
+            }
+
+            const dir = `${this.manifest.dir}/${DOWNLOADS_STATE_DIR_NAME}`;
+            if (!(await adapter.exists(dir))) {
+                await adapter.mkdir(dir);
+            }
+            await adapter.write(statePath, JSON.stringify(downloads, null, 2));
+        } catch (error) {
+            console.warn('[Cross Player] Failed to save the download list', error);
+        }
+    }
+
+    async restoreDownloads() {
+        if (!Platform.isDesktop) return;
+
+        const statePath = this.getDownloadsStatePath();
+        let restored: DownloadStatus[] = [];
+        try {
+            if (!(await this.app.vault.adapter.exists(statePath))) return;
+            restored = JSON.parse(await this.app.vault.adapter.read(statePath)) as DownloadStatus[];
+        } catch (error) {
+            console.warn('[Cross Player] Failed to restore the download list', error);
+            return;
+        }
+
+        const interruptedIds: string[] = [];
+        for (const download of Array.isArray(restored) ? restored : []) {
+            if (!download?.id || !download.params || this.activeDownloads.some(active => active.id === download.id)) continue;
+
+            const wasRunning = download.status === 'downloading' || download.status === 'converting';
+            this.activeDownloads.push({ ...download, status: wasRunning ? 'paused' : download.status, speed: '0', eta: '?' });
+            if (wasRunning) interruptedIds.push(download.id);
+        }
+
+        this.handleDownloadsChanged();
+
+        // yt-dlp picks up the .part files where the previous session stopped.
+        for (const id of interruptedIds) {
+            this.resumeDownload(id);
+        }
+        this.scheduleDownloads();
+        if (interruptedIds.length > 0) {
+            new Notice(`Resuming ${interruptedIds.length} interrupted download(s).`);
+        }
+    }
+
+    resumeDownload(id: string) {
+        if (!Platform.isDesktop) return;
+
+        const dl = this.activeDownloads.find(d => d.id === id);
+        if (dl && dl.params && dl.status === 'paused') {
+            // Resumed downloads keep their place in line and wait for a free slot.
+            dl.status = 'queued';
+            this.handleDownloadsChanged();
+            this.scheduleDownloads();
+        }
+    }
+}
+
+class YouTubeDownloadModal extends Modal {
+    plugin: CrossPlayerPlugin;
+    videoLinks: string = '';
+    audioLinks: string = '';
+    quality: string;
+    playlistUrl: string = '';
+    playlistType: 'video' | 'audio' = 'video';
+    playlistSubfolder: boolean = true;
+    playlist: PlaylistListing | null = null;
+    selectedEntryIds: Set<string> = new Set();
+    playlistEl: HTMLElement;
+
+    constructor(app: App, plugin: CrossPlayerPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.quality = 'best';
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Download from YouTube' });
+
+        new Setting(contentEl)
+            .setName('Video Links')
+            .setDesc('Paste links to download as VIDEO (with audio), one per line.')
+            .addTextArea(text => text
+                .setPlaceholder('https://youtube.com/watch?v=...')
+                .setValue(this.videoLinks)
+                .onChange(async (value) => {
+                    this.videoLinks = value;
+                }));
+
+        // Style the video textarea
+        const textareas = contentEl.querySelectorAll('textarea');
+        if (textareas.length > 0) {
+            textareas[0].addClass('cross-player-download-textarea');
+        }
+
+        new Setting(contentEl)
+            .setName('Audio Links')
+            .setDesc('Paste links to download as AUDIO ONLY (mp3), one per line.')
+            .addTextArea(text => text
+                .setPlaceholder('https://youtube.com/watch?v=...')
+                .setValue(this.audioLinks)
+                .onChange(async (value) => {
+                    this.audioLinks = value;
+                }));
+
+        // Style the audio textarea
+        if (textareas.length > 1) { // It might not be created yet in DOM flow if I used querySelectorAll immediately after addTextArea.
+            // Actually Setting.addTextArea creates it synchronously.
+            // But let's be safe and query again or query specific one.
+        }
+        // Let's re-query to be safe and clear
+        const allTextareas = contentEl.querySelectorAll('textarea');
+        allTextareas.forEach(ta => {
+            ta.addClass('cross-player-download-textarea');
+        });
+
+        new Setting(contentEl)
+            .setName('Quality')
+            .setDesc('Select max video quality (ignored for audio links).')
+            .addDropdown(drop => drop
+                .addOption('best', 'Best Available')
+                .addOption('1080p', '1080p')
+                .addOption('720p', '720p')
+                .addOption('480p', '480p')
+                .setValue(this.quality)
+                .onChange(async (value) => {
+                    this.quality = value;
+                }));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Download All')
+                .setCta()
+                .onClick(() => {
+                    const videoList = this.videoLinks.split('\n').filter(l => l.trim().length > 0);
+                    const audioList = this.audioLinks.split('\n').filter(l => l.trim().length > 0);
+
+                    if (videoList.length === 0 && audioList.length === 0) {
+                        new Notice('Please enter at least one link.');
+                        return;
                     }
 
-                    if (line.includes('[download]')) {
-                        const percentMatch = line.match(/(\d+\.\d+)%/);
-                        const speedMatch = line.match(/at\s+([^\s]+)/);
-                        const etaMatch = line.match(/ETA\s+([^\s]+)/);
+                    if (videoList.length > 0) {
+                        void this.plugin.downloadVideos(videoList, this.quality, 'video');
+                    }
 
-                        if (percentMatch) {
-                            let percent = parseFloat(percentMatch[1]);
-                            // If audio/converting expected, scale download progress to 90% max
-                            if (type === 'audio') {
-                                percent = percent * 0.9;
-                            }
-                            downloadStatus.progress = percent.toFixed(1) + '%';
-                        }
-                        if (speedMatch) {
-                            downloadStatus.speed = speedMatch[1];
+                    if (audioList.length > 0) {
+                        void this.plugin.downloadVideos(audioList, this.quality, 'audio');
+                    }
+
+                    this.close();
+                }));
+
+        contentEl.createEl('h3', { text: 'Playlist or Channel' });
+
+        let loadButton: HTMLButtonElement;
+        new Setting(contentEl)
+            .setName('Playlist URL')
+            .setDesc('List the entries first, then pick which ones to download. For channels, use the channel\'s /videos page.')
+            .addText(text => text
+                .setPlaceholder('https://youtube.com/playlist?list=...')
+                .setValue(this.playlistUrl)
+                .onChange((value) => {
+                    this.playlistUrl = value.trim();
+                }))
+            .addButton(btn => {
+                loadButton = btn.buttonEl;
+                btn.setButtonText('Load Entries')
+                    .onClick(async () => {
+                        if (!this.playlistUrl) {
+                            new Notice('Please enter a playlist link.');
+                            return;
                         }
-                        if (etaMatch) {
-                            downloadStatus.eta = etaMatch[1];
+                        loadButton.disabled = true;
+                        btn.setButtonText('Loading...');
+                        try {
+                            this.playlist = await this.plugin.fetchPlaylistEntries(this.playlistUrl);
+                            this.selectedEntryIds = new Set(this.playlist.entries.map(entry => entry.id));
+                        } catch (error) {
+                            console.warn('[Cross Player] Failed to list playlist', error);
+                            new Notice(`Could not list playlist: ${error instanceof Error ? error.message : String(error)}`);
+                            this.playlist = null;
+                        } finally {
+                            loadButton.disabled = false;
+                            btn.setButtonText('Load Entries');
                         }
-                        this.listView?.updateDownloadProgress();
-                    }
-                    if (line.includes('[youtube]')) {
-                        // Extract title from youtube metadata line: [youtube] <id>: Downloading webpage
-                        // We need another way to get the title quickly.
-                        // Actually, yt-dlp prints the title if we use --print title.
-                        // But let's look for info logs.
+                        this.renderPlaylist();
+                    });
+            });
+
+        this.playlistEl = contentEl.createDiv();
+        this.renderPlaylist();
+    }
+
+    renderPlaylist() {
+        const el = this.playlistEl;
+        el.empty();
+        const playlist = this.playlist;
+        if (!playlist) return;
+
+        if (playlist.entries.length === 0) {
+            el.createEl('p', { text: 'This playlist has no downloadable entries.', cls: 'cross-player-muted-text' });
+            return;
+        }
+
+        const header = el.createDiv({ cls: 'cross-player-playlist-header' });
+        const summaryEl = header.createSpan({ cls: 'cross-player-muted-text' });
+        const updateSummary = () => {
+            summaryEl.setText(`${playlist.title}: ${this.selectedEntryIds.size} of ${playlist.entries.length} selected`);
+        };
+        updateSummary();
+
+        const listEl = el.createDiv({ cls: 'cross-player-playlist-entries' });
+        const checkboxes: HTMLInputElement[] = [];
+        for (const entry of playlist.entries) {
+            const row = listEl.createEl('label', { cls: 'cross-player-playlist-entry' });
+            const checkbox = row.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selectedEntryIds.has(entry.id);
+            checkbox.onchange = () => {
+                if (checkbox.checked) this.selectedEntryIds.add(entry.id);
+                else this.selectedEntryIds.delete(entry.id);
+                updateSummary();
+            };
+            checkboxes.push(checkbox);
+            row.createSpan({ text: entry.title, cls: 'cross-player-playlist-entry-title' });
+            row.createSpan({
+                text: entry.duration ? this.plugin.formatPlaybackTime(entry.duration) : '',
+                cls: 'cross-player-muted-text'
+            });
+        }
+
+        const setAll = (selected: boolean) => {
+            this.selectedEntryIds = selected ? new Set(playlist.entries.map(entry => entry.id)) : new Set();
+            checkboxes.forEach(checkbox => checkbox.checked = selected);
+            updateSummary();
+        };
+        const selectAllBtn = header.createEl('button', { text: 'All', cls: 'cross-player-download-button' });
+        selectAllBtn.onclick = () => setAll(true);
+        const selectNoneBtn = header.createEl('button', { text: 'None', cls: 'cross-player-download-button' });
+        selectNoneBtn.onclick = () => setAll(false);
+
+        new Setting(el)
+            .setName('Download As')
+            .addDropdown(drop => drop
+                .addOption('video', 'Video')
+                .addOption('audio', 'Audio only (mp3)')
+                .setValue(this.playlistType)
+                .onChange((value) => {
+                    this.playlistType = value as 'video' | 'audio';
+                }));
+
+        new Setting(el)
+            .setName('Save Into Subfolder')
+            .setDesc(`Creates "${toPlaylistFolderName(playlist.title)}" inside the download folder.`)
+            .addToggle(toggle => toggle
+                .setValue(this.playlistSubfolder)
+                .onChange((value) => {
+                    this.playlistSubfolder = value;
+                }));
+
+        new Setting(el)
+            .addButton(btn => btn
+                .setButtonText('Download Selected')
+                .setCta()
+                .onClick(() => {
+                    const selected = playlist.entries.filter(entry => this.selectedEntryIds.has(entry.id));
+                    if (selected.length === 0) {
+                        new Notice('Please select at least one entry.');
+                        return;
                     }
-                    if (line.includes('[info]')) {
-                        const titleMatch = line.match(/\[info\]\s+(.*?):\s+Downloading/);
-                        if (titleMatch && titleMatch[1]) {
-                            downloadStatus.name = titleMatch[1];
+
+                    void this.plugin.downloadPlaylistEntries(playlist, selected, this.quality, this.playlistType, this.playlistSubfolder);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+class PodcastEpisodesModal extends Modal {
+    plugin: CrossPlayerPlugin;
+    feedUrl: string = '';
+    feed: PodcastFeed | null = null;
+    selectedGuids: Set<string> = new Set();
+    episodesEl: HTMLElement;
+
+    constructor(app: App, plugin: CrossPlayerPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Download Podcast Episodes' });
+
+        let loadButton: HTMLButtonElement;
+        new Setting(contentEl)
+            .setName('Feed')
+            .setDesc('An RSS or Atom feed link, or the vault path of a saved feed file.')
+            .addText(text => text
+                .setPlaceholder('https://example.com/feed.xml')
+                .setValue(this.feedUrl)
+                .onChange((value) => {
+                    this.feedUrl = value.trim();
+                }))
+            .addButton(btn => {
+                loadButton = btn.buttonEl;
+                btn.setButtonText('Load Episodes')
+                    .onClick(async () => {
+                        if (!this.feedUrl) {
+                            new Notice('Please enter a feed link.');
+                            return;
                         }
-                    }
-                    if (line.includes('[download] Destination:')) {
-                        const name = line.split('Destination:')[1].trim();
-                        // Only update if it's not a generic name
-                        if (name) {
-                            // Remove extension if possible
-                            const nameWithoutExt = name.replace(/\.[^/.]+$/, "");
-                            downloadStatus.name = nameWithoutExt;
+                        loadButton.disabled = true;
+                        btn.setButtonText('Loading...');
+                        try {
+                            this.feed = await this.plugin.fetchPodcastFeed(this.feedUrl);
+                            this.selectedGuids = new Set();
+                        } catch (error) {
+                            console.warn('[Cross Player] Failed to read podcast feed', error);
+                            new Notice(`Could not read feed: ${error instanceof Error ? error.message : String(error)}`);
+                            this.feed = null;
+                        } finally {
+                            loadButton.disabled = false;
+                            btn.setButtonText('Load Episodes');
                         }
-                        this.listView?.updateDownloadProgress();
+                        this.renderEpisodes();
+                    });
+            });
+
+        this.episodesEl = contentEl.createDiv();
+    }
+
+    renderEpisodes() {
+        const el = this.episodesEl;
+        el.empty();
+        const feed = this.feed;
+        if (!feed) return;
+
+        if (feed.episodes.length === 0) {
+            el.createEl('p', { text: 'This feed has no episodes with media files.', cls: 'cross-player-muted-text' });
+            return;
+        }
+
+        const header = el.createDiv({ cls: 'cross-player-playlist-header' });
+        const summaryEl = header.createSpan({ cls: 'cross-player-muted-text' });
+        const updateSummary = () => {
+            summaryEl.setText(`${feed.title}: ${this.selectedGuids.size} of ${feed.episodes.length} selected`);
+        };
+        updateSummary();
+
+        const listEl = el.createDiv({ cls: 'cross-player-playlist-entries' });
+        const checkboxes: HTMLInputElement[] = [];
+        for (const episode of feed.episodes) {
+            const row = listEl.createEl('label', { cls: 'cross-player-playlist-entry' });
+            const checkbox = row.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selectedGuids.has(episode.guid);
+            checkbox.onchange = () => {
+                if (checkbox.checked) this.selectedGuids.add(episode.guid);
+                else this.selectedGuids.delete(episode.guid);
+                updateSummary();
+            };
+            checkboxes.push(checkbox);
+            row.createSpan({ text: episode.title, cls: 'cross-player-playlist-entry-title' });
+
+            const details = [
+                episode.publishedAt ? new Date(episode.publishedAt).toLocaleDateString() : '',
+                episode.duration ? this.plugin.formatPlaybackTime(episode.duration) : ''
+            ].filter(detail => detail);
+            row.createSpan({ text: details.join(' • '), cls: 'cross-player-muted-text' });
+        }
+
+        const setAll = (selected: boolean) => {
+            this.selectedGuids = selected ? new Set(feed.episodes.map(episode => episode.guid)) : new Set();
+            checkboxes.forEach(checkbox => checkbox.checked = selected);
+            updateSummary();
+        };
+        const selectAllBtn = header.createEl('button', { text: 'All', cls: 'cross-player-download-button' });
+        selectAllBtn.onclick = () => setAll(true);
+        const selectNoneBtn = header.createEl('button', { text: 'None', cls: 'cross-player-download-button' });
+        selectNoneBtn.onclick = () => setAll(false);
+
+        new Setting(el)
+            .setDesc(`Episodes are saved into "${toPlaylistFolderName(feed.title)}" inside the download folder.`)
+            .addButton(btn => btn
+                .setButtonText('Download Selected')
+                .setCta()
+                .onClick(() => {
+                    const selected = feed.episodes.filter(episode => this.selectedGuids.has(episode.guid));
+                    if (selected.length === 0) {
+                        new Notice('Please select at least one episode.');
+                        return;
                     }
-                    // Conversion / Post-processing detection
-                    if (line.includes('[ExtractAudio]') || line.includes('[ffmpeg]') || line.includes('[Merger]')) {
-                        downloadStatus.status = 'converting';
-                        downloadStatus.progress = '95%'; // Jump to 95% during conversion
 
-                        const destMatch = line.match(/(?:into|to)\s+"(.*)"/);
-                        if (destMatch && destMatch[1]) {
-                            const nameWithoutExt = destMatch[1].replace(/\.[^/.]+$/, "");
-                            downloadStatus.name = nameWithoutExt;
-                        }
+                    void this.plugin.downloadPodcastEpisodes(feed, selected);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+class EpisodeNotesModal extends Modal {
+    plugin: CrossPlayerPlugin;
+    episode: EpisodeMetadata;
+
+    constructor(app: App, plugin: CrossPlayerPlugin, episode: EpisodeMetadata) {
+        super(app);
+        this.plugin = plugin;
+        this.episode = episode;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: this.episode.title });
+
+        const published = this.episode.publishedAt ? ` • ${new Date(this.episode.publishedAt).toLocaleDateString()}` : '';
+        contentEl.createEl('p', { text: `${this.episode.podcast}${published}`, cls: 'cross-player-muted-text' });
+
+        const notesEl = contentEl.createDiv({ cls: 'cross-player-episode-notes' });
+        if (this.episode.showNotes) {
+            notesEl.appendChild(sanitizeHTMLToDom(this.episode.showNotes));
+        } else {
+            notesEl.createEl('p', { text: 'This episode has no show notes.', cls: 'cross-player-muted-text' });
+        }
+
+        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
+        if (this.episode.link) {
+            const link = this.episode.link;
+            const openBtn = actions.createEl('button', { text: 'Open Episode Page' });
+            openBtn.onclick = () => window.open(link);
+        }
+        const closeBtn = actions.createEl('button', { text: 'Close', cls: 'mod-cta' });
+        closeBtn.onclick = () => this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+class BookmarkNoteModal extends Modal {
+    plugin: CrossPlayerPlugin;
+    item: MediaItem;
+    time: number;
+    note: string = '';
+
+    constructor(app: App, plugin: CrossPlayerPlugin, item: MediaItem, time: number) {
+        super(app);
+        this.plugin = plugin;
+        this.item = item;
+        this.time = time;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: `Add bookmark at ${this.plugin.formatPlaybackTime(this.time)}` });
+
+        const submit = () => {
+            this.close();
+            void this.plugin.addBookmark(this.item, this.time, this.note);
+        };
 
-                        this.listView?.updateDownloadProgress();
+        new Setting(contentEl)
+            .setName('Note')
+            .setDesc('Optional note shown next to the bookmark in the queue.')
+            .addText(text => {
+                text
+                    .setPlaceholder('What happens here?')
+                    .onChange((value) => {
+                        this.note = value;
+                    });
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter') {
+                        event.preventDefault();
+                        submit();
                     }
-                }
+                });
+                window.setTimeout(() => text.inputEl.focus(), 0);
             });
 
-            child.stderr?.on('data', (data: Uint8Array | string) => {
-                const errorMsg = data.toString();
-                console.error(`yt-dlp stderr: ${errorMsg}`);
+        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
 
-                // Detect specific errors
-                if (errorMsg.includes("HTTP Error 400") || errorMsg.includes("Precondition check failed") || errorMsg.includes("Unable to extract")) {
-                    downloadStatus.error = "Update yt-dlp!";
-                    downloadStatus.status = 'error';
-                    this.listView?.updateDownloadProgress();
-                } else if (errorMsg.includes("ffmpeg-location") && errorMsg.includes("does not exist")) {
-                    // This is a warning, but good to know
-                    console.warn("FFmpeg path invalid");
-                }
+        const cancelBtn = actions.createEl('button', { text: 'Cancel' });
+        cancelBtn.onclick = () => this.close();
+
+        const confirmBtn = actions.createEl('button', { text: 'Add Bookmark', cls: 'mod-cta' });
+        confirmBtn.onclick = submit;
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+class SavedLoopSuggestModal extends FuzzySuggestModal<MediaLoop> {
+    plugin: CrossPlayerPlugin;
+    item: MediaItem;
+
+    mode: 'play' | 'delete';
+
+    constructor(app: App, plugin: CrossPlayerPlugin, item: MediaItem, mode: 'play' | 'delete' = 'play') {
+        super(app);
+        this.plugin = plugin;
+        this.item = item;
+        this.mode = mode;
+        this.setPlaceholder(mode === 'delete' ? 'Pick a saved loop to delete' : 'Pick a saved loop to play');
+    }
+
+    getItems(): MediaLoop[] {
+        return this.item.loops ?? [];
+    }
+
+    getItemText(loop: MediaLoop): string {
+        return this.plugin.formatLoop(loop);
+    }
+
+    onChooseItem(loop: MediaLoop): void {
+        if (this.mode === 'delete') {
+            void this.plugin.removeLoop(this.item, loop.id).then(() => {
+                new Notice(`Loop deleted: ${this.plugin.formatLoop(loop)}`);
             });
+            return;
+        }
+
+        this.plugin.mainView?.activateLoop(loop.start, loop.end);
+    }
+}
+
+class ChapterSuggestModal extends FuzzySuggestModal<MediaChapter> {
+    plugin: CrossPlayerPlugin;
+    item: MediaItem;
+
+    constructor(app: App, plugin: CrossPlayerPlugin, item: MediaItem) {
+        super(app);
+        this.plugin = plugin;
+        this.item = item;
+        this.setPlaceholder('Jump to chapter');
+    }
+
+    getItems(): MediaChapter[] {
+        return this.item.chapters ?? [];
+    }
+
+    getItemText(chapter: MediaChapter): string {
+        return `${this.plugin.formatPlaybackTime(chapter.start)} ${chapter.title}`;
+    }
+
+    onChooseItem(chapter: MediaChapter): void {
+        void this.plugin.playMediaAt(this.item, chapter.start);
+    }
+}
+
+class SleepTimerSuggestModal extends FuzzySuggestModal<SleepTimerChoice> {
+    mainView: CrossPlayerMainView;
+
+    constructor(app: App, mainView: CrossPlayerMainView) {
+        super(app);
+        this.mainView = mainView;
+        this.setPlaceholder('Pause playback after...');
+    }
+
+    getItems(): SleepTimerChoice[] {
+        return this.mainView.getSleepTimerChoices();
+    }
+
+    getItemText(choice: SleepTimerChoice): string {
+        return choice.label;
+    }
+
+    onChooseItem(choice: SleepTimerChoice): void {
+        this.mainView.applySleepTimerChoice(choice);
+    }
+}
+
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+    plugin: CrossPlayerPlugin;
+
+    constructor(app: App, plugin: CrossPlayerPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    getItems(): TFolder[] {
+        return this.plugin.getVaultFolders();
+    }
 
-            child.on('error', (err: Error) => {
-                console.error("Failed to start process", err);
-                downloadStatus.status = 'error';
-                downloadStatus.error = err.message;
-                this.listView?.updateDownloadProgress();
-            });
+    getItemText(item: TFolder): string {
+        return item.path;
+    }
 
-            child.on('close', (code: number | null) => {
-                // If code is null/signal, it might be killed manually
-                if (code === 0) {
-                    downloadStatus.status = 'completed';
-                    downloadStatus.progress = '100%';
-                    console.log(`Download completed for: ${downloadStatus.name}`);
-
-                    // Refresh watched folder after a slight delay to let Obsidian see the file
-                    const { watchedFolder } = this.data.settings;
-                    if (watchedFolder) {
-                        window.setTimeout(() => {
-                            void this.scanFolder(watchedFolder);
-                        }, 2000);
-                    }
-                } else if (downloadStatus.status !== 'paused' && code !== null) {
-                    // Only mark error if not paused and not manually killed (though killed usually gives null code or signal)
-                    // If we killed it for pause, we set status to 'paused' BEFORE calling kill, so we check that.
-                    downloadStatus.status = 'error';
-                    downloadStatus.error = `Exit code ${code}`;
-                }
+    onChooseItem(item: TFolder): void {
+        void this.plugin.setWatchedFolder(item.path);
+    }
+}
 
-                downloadStatus.childProcess = undefined;
-                this.listView?.updateDownloadProgress();
+class RuleFolderSuggestModal extends FuzzySuggestModal<TFolder> {
+    plugin: CrossPlayerPlugin;
+    existingFolders: string[];
+    onChoose: (folder: TFolder) => void;
 
-                if (downloadStatus.status === 'completed') {
-                    window.setTimeout(() => {
-                        this.activeDownloads = this.activeDownloads.filter(d => d.id !== downloadId);
-                        this.listView?.updateDownloadProgress();
-                    }, 5000);
-                }
-            });
+    constructor(app: App, plugin: CrossPlayerPlugin, existingFolders: string[], placeholder: string, onChoose: (folder: TFolder) => void) {
+        super(app);
+        this.plugin = plugin;
+        this.existingFolders = existingFolders;
+        this.onChoose = onChoose;
+        this.setPlaceholder(placeholder);
+    }
 
-        } catch (error) {
-            console.error("Download failed", error);
-            new Notice(`Failed to download: ${link}`);
-            downloadStatus.status = 'error';
-            downloadStatus.error = 'Failed to start';
-            this.listView?.updateDownloadProgress();
-        }
+    getItems(): TFolder[] {
+        const watchedFolder = this.plugin.data.settings.watchedFolder;
+        return this.plugin.getVaultFolders().filter(folder => {
+            if (folder.isRoot() || this.existingFolders.includes(folder.path)) return false;
+            return !watchedFolder || folder.path.startsWith(`${watchedFolder}/`);
+        });
     }
 
-    cancelDownload(id: string) {
-        const dl = this.activeDownloads.find(d => d.id === id);
-        if (dl) {
-            if (dl.childProcess) {
-                dl.childProcess.kill();
-            }
-            this.activeDownloads = this.activeDownloads.filter(d => d.id !== id);
-            this.listView?.updateDownloadProgress();
-            new Notice("Download cancelled");
-        }
+    getItemText(item: TFolder): string {
+        return item.path;
     }
 
-    pauseDownload(id: string) {
-        const dl = this.activeDownloads.find(d => d.id === id);
-        if (dl && dl.childProcess) {
-            dl.status = 'paused';
-            dl.childProcess.kill(); // Kill process to stop download
-            this.listView?.updateDownloadProgress();
-        }
+    onChooseItem(item: TFolder): void {
+        this.onChoose(item);
     }
+}
 
-    retryDownload(id: string) {
-        const dl = this.activeDownloads.find(d => d.id === id);
-        if (dl && dl.status === 'error') {
-            const { url, quality, type } = dl.params;
+class EqualizerPresetSuggestModal extends FuzzySuggestModal<EqualizerPresetId> {
+    plugin: CrossPlayerPlugin;
+    item: MediaItem;
 
-            // Re-resolve cwd just in case, though we could store it in params too
-            const { downloadFolder, watchedFolder } = this.data.settings;
-            const targetFolder = downloadFolder || watchedFolder;
+    constructor(app: App, plugin: CrossPlayerPlugin, item: MediaItem) {
+        super(app);
+        this.plugin = plugin;
+        this.item = item;
+        this.setPlaceholder('Equalizer preset for this item');
+    }
 
-            const absolutePath = this.buildAbsoluteVaultPath(targetFolder);
-            if (!absolutePath) {
-                new Notice("Could not resolve absolute path for vault.");
-                return;
-            }
+    getItems(): EqualizerPresetId[] {
+        return Object.keys(EQUALIZER_PRESETS) as EqualizerPresetId[];
+    }
 
-            void this.startDownload(url, quality, type, absolutePath, id);
-        }
+    getItemText(preset: EqualizerPresetId): string {
+        return this.plugin.getEqualizerPresetLabel(preset);
     }
 
-    resumeDownload(id: string) {
-        if (!Platform.isDesktop) return;
+    onChooseItem(preset: EqualizerPresetId): void {
+        void this.plugin.setItemEqualizerPreset(this.item, preset);
+    }
+}
 
-        const dl = this.activeDownloads.find(d => d.id === id);
-        if (dl && dl.params) {
-            const { downloadFolder, watchedFolder } = this.data.settings;
-            const targetFolder = downloadFolder || watchedFolder;
+class ConfirmCleanConsumedMediaModal extends Modal {
+    plugin: CrossPlayerPlugin;
 
-            // Re-resolve path
-            const absolutePath = this.buildAbsoluteVaultPath(targetFolder) ?? '';
+    constructor(app: App, plugin: CrossPlayerPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
 
-            if (absolutePath) {
-                void this.startDownload(dl.params.url, dl.params.quality, dl.params.type, absolutePath, id);
-            }
+    onOpen() {
+        const { contentEl } = this;
+        const completedCount = this.plugin.data.queue.filter(item => item.status === 'completed').length;
+
+        contentEl.empty();
+        contentEl.createEl('h3', { text: 'Clean consumed media?' });
+        contentEl.createEl('p', {
+            text: completedCount > 0
+                ? `This will permanently delete ${completedCount} completed media file(s) and remove them from the queue.`
+                : 'There are no completed media files to clean right now.'
+        });
+
+        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
+
+        const cancelBtn = actions.createEl('button', { text: completedCount > 0 ? 'Cancel' : 'Close' });
+        cancelBtn.onclick = () => this.close();
+
+        if (completedCount > 0) {
+            const confirmBtn = actions.createEl('button', { text: 'Clean Media', cls: 'mod-warning' });
+            confirmBtn.onclick = async () => {
+                this.close();
+                await this.plugin.cleanConsumedMedia();
+            };
         }
     }
+
+    onClose() {
+        this.contentEl.empty();
+    }
 }
 
-class YouTubeDownloadModal extends Modal {
+class ConsumptionStatsModal extends Modal {
     plugin: CrossPlayerPlugin;
-    videoLinks: string = '';
-    audioLinks: string = '';
-    quality: string;
 
     constructor(app: App, plugin: CrossPlayerPlugin) {
         super(app);
         this.plugin = plugin;
-        this.quality = 'best';
     }
 
     onOpen() {
         const { contentEl } = this;
-        contentEl.createEl('h2', { text: 'Download from YouTube' });
+        const today = this.plugin.getConsumptionSummary(1);
+        const week = this.plugin.getConsumptionSummary(7);
+        const month = this.plugin.getConsumptionSummary(30);
+        const allTime = this.plugin.getConsumptionSummary();
 
-        new Setting(contentEl)
-            .setName('Video Links')
-            .setDesc('Paste links to download as VIDEO (with audio), one per line.')
-            .addTextArea(text => text
-                .setPlaceholder('https://youtube.com/watch?v=...')
-                .setValue(this.videoLinks)
-                .onChange(async (value) => {
-                    this.videoLinks = value;
-                }));
+        contentEl.empty();
+        contentEl.createEl('h3', { text: 'Consumption Statistics' });
 
-        // Style the video textarea
-        const textareas = contentEl.querySelectorAll('textarea');
-        if (textareas.length > 0) {
-            textareas[0].addClass('cross-player-download-textarea');
-        }
+        const summary = contentEl.createDiv({ cls: 'cross-player-consumption-summary' });
+        const rows = [
+            ['Today', today],
+            ['Last 7 days', week],
+            ['Last 30 days', month],
+            ['All time', allTime]
+        ] as const;
 
-        new Setting(contentEl)
-            .setName('Audio Links')
-            .setDesc('Paste links to download as AUDIO ONLY (mp3), one per line.')
-            .addTextArea(text => text
-                .setPlaceholder('https://youtube.com/watch?v=...')
-                .setValue(this.audioLinks)
-                .onChange(async (value) => {
-                    this.audioLinks = value;
-                }));
+        rows.forEach(([label, data]) => {
+            const row = summary.createDiv({ cls: 'cross-player-consumption-row' });
+            row.createEl('strong', { text: label });
+            row.createSpan({ text: `${this.plugin.formatDuration(data.seconds)} watched` });
+            row.createSpan({ text: `${data.completedCount} item(s) completed` });
+            if (data.silenceSkippedSeconds > 0) {
+                row.createSpan({ text: `${this.plugin.formatDuration(data.silenceSkippedSeconds)} saved by skipping silence` });
+            }
+            if (label === 'All time') {
+                row.createSpan({ text: `${data.trackedDays} tracked day(s)` });
+            }
+        });
 
-        // Style the audio textarea
-        if (textareas.length > 1) { // It might not be created yet in DOM flow if I used querySelectorAll immediately after addTextArea.
-            // Actually Setting.addTextArea creates it synchronously.
-            // But let's be safe and query again or query specific one.
-        }
-        // Let's re-query to be safe and clear
-        const allTextareas = contentEl.querySelectorAll('textarea');
-        allTextareas.forEach(ta => {
-            ta.addClass('cross-player-download-textarea');
+        const hint = contentEl.createEl('p', {
+            text: 'Stats are stored as small daily buckets, so they stay compact even over long periods.'
         });
+        hint.addClass('cross-player-muted-text');
 
-        new Setting(contentEl)
-            .setName('Quality')
-            .setDesc('Select max video quality (ignored for audio links).')
-            .addDropdown(drop => drop
-                .addOption('best', 'Best Available')
-                .addOption('1080p', '1080p')
-                .addOption('720p', '720p')
-                .addOption('480p', '480p')
-                .setValue(this.quality)
-                .onChange(async (value) => {
-                    this.quality = value;
-                }));
+        const closeBtn = contentEl.createEl('button', { text: 'Close' });
+        closeBtn.onclick = () => this.close();
+    }
 
-        new Setting(contentEl)
-            .addButton(btn => btn
-                .setButtonText('Download All')
-                .setCta()
-                .onClick(() => {
-                    const videoList = this.videoLinks.split('\n').filter(l => l.trim().length > 0);
-                    const audioList = this.audioLinks.split('\n').filter(l => l.trim().length > 0);
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-                    if (videoList.length === 0 && audioList.length === 0) {
-                        new Notice('Please enter at least one link.');
-                        return;
-                    }
+class SyncStatusModal extends Modal {
+    plugin: CrossPlayerPlugin;
 
-                    if (videoList.length > 0) {
-                        void this.plugin.downloadVideos(videoList, this.quality, 'video');
-                    }
+    constructor(app: App, plugin: CrossPlayerPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
 
-                    if (audioList.length > 0) {
-                        void this.plugin.downloadVideos(audioList, this.quality, 'audio');
-                    }
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: 'Sync Status' });
+        const loadingEl = contentEl.createEl('p', { text: 'Checking devices…', cls: 'cross-player-muted-text' });
 
-                    this.close();
-                }));
+        const devices = await this.plugin.readDeviceStatuses();
+        const issues = await this.plugin.collectSyncIssues(devices);
+        loadingEl.remove();
+
+        const formatTimestamp = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleString() : 'Never';
+
+        contentEl.createEl('h4', { text: 'Devices' });
+        if (devices.length === 0) {
+            contentEl.createEl('p', {
+                text: 'No device has reported its status yet. Devices report to .cross-player-devices in the watched folder.',
+                cls: 'cross-player-muted-text'
+            });
+        }
+
+        const deviceList = contentEl.createDiv({ cls: 'cross-player-sync-status-list' });
+        for (const device of devices) {
+            const row = deviceList.createDiv({ cls: 'cross-player-sync-status-row' });
+            const label = device.id === this.plugin.deviceId ? `${device.name} (this device)` : device.name;
+            row.createEl('strong', { text: label });
+            row.createSpan({ text: `ID: ${device.id}`, cls: 'cross-player-muted-text' });
+            row.createSpan({ text: `Last heartbeat: ${formatTimestamp(device.timestamp)}` });
+            row.createSpan({ text: `Queue last written: ${formatTimestamp(device.queueUpdatedAt)}` });
+            const freeSpaceText = typeof device.freeSpace === 'number'
+                ? `${(device.freeSpace / (1024 * 1024 * 1024)).toFixed(1)} GB${device.freeSpaceIsEstimate ? ' (browser estimate)' : ''}`
+                : 'Unknown';
+            row.createSpan({ text: `Free space: ${freeSpaceText}` });
+            if (Date.now() - (device.timestamp || 0) > DEVICE_STATUS_EXPIRY_MS) {
+                row.createSpan({ text: 'Expired: ignored for the storage limit.', cls: 'cross-player-muted-text' });
+            }
+            row.createSpan({ text: `Plugin version: ${device.pluginVersion || 'Unknown'}` });
+        }
+
+        contentEl.createEl('h4', { text: 'Issues' });
+        if (issues.length === 0) {
+            contentEl.createEl('p', { text: 'No sync issues detected.', cls: 'cross-player-muted-text' });
+        }
+
+        const issueList = contentEl.createDiv({ cls: 'cross-player-sync-status-list' });
+        for (const issue of issues) {
+            const row = issueList.createDiv({ cls: 'cross-player-sync-status-row is-issue' });
+            row.createEl('strong', { text: issue.message });
+            row.createSpan({ text: `Suggested fix: ${issue.fix}` });
+        }
+
+        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
+        const refreshBtn = actions.createEl('button', { text: 'Refresh' });
+        refreshBtn.onclick = () => {
+            void this.plugin.updateDeviceStatus().then(() => this.onOpen());
+        };
+        const closeBtn = actions.createEl('button', { text: 'Close' });
+        closeBtn.onclick = () => this.close();
     }
 
     onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
+        this.contentEl.empty();
     }
 }
 
-class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+class OfflineSyncListModal extends Modal {
     plugin: CrossPlayerPlugin;
+    format: OfflineSyncListFormat = 'stignore';
 
     constructor(app: App, plugin: CrossPlayerPlugin) {
         super(app);
         this.plugin = plugin;
     }
 
-    getItems(): TFolder[] {
-        return this.plugin.getVaultFolders();
-    }
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: 'Offline Sync List' });
 
-    getItemText(item: TFolder): string {
-        return item.path;
+        const keptCount = this.plugin.data.queue.filter(item => this.plugin.isKeptOnDevice(item)).length;
+        contentEl.createEl('p', {
+            text: `${keptCount} of ${this.plugin.data.queue.length} queue item(s) are kept on this device. Use "Keep on This Device" in the queue's context menu to change the subset.`,
+            cls: 'cross-player-muted-text'
+        });
+
+        let outputEl: HTMLTextAreaElement;
+        new Setting(contentEl)
+            .setName('Format')
+            .addDropdown(dropdown => dropdown
+                .addOption('stignore', 'Syncthing (.stignore)')
+                .addOption('include', 'Include list')
+                .addOption('exclude', 'Exclude list')
+                .setValue(this.format)
+                .onChange((value) => {
+                    this.format = value as OfflineSyncListFormat;
+                    outputEl.value = this.plugin.buildOfflineSyncList(this.format);
+                }));
+
+        outputEl = contentEl.createEl('textarea', { cls: 'cross-player-offline-sync-list' });
+        outputEl.readOnly = true;
+        outputEl.value = this.plugin.buildOfflineSyncList(this.format);
+
+        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
+        const copyBtn = actions.createEl('button', { text: 'Copy', cls: 'mod-cta' });
+        copyBtn.onclick = async () => {
+            await navigator.clipboard.writeText(outputEl.value);
+            new Notice('Offline sync list copied.');
+        };
+        const closeBtn = actions.createEl('button', { text: 'Close' });
+        closeBtn.onclick = () => this.close();
     }
 
-    onChooseItem(item: TFolder): void {
-        void this.plugin.setWatchedFolder(item.path);
+    onClose() {
+        this.contentEl.empty();
     }
 }
 
-class ConfirmCleanConsumedMediaModal extends Modal {
+class StorageAuditModal extends Modal {
     plugin: CrossPlayerPlugin;
 
     constructor(app: App, plugin: CrossPlayerPlugin) {
@@ -2118,30 +5154,27 @@ class ConfirmCleanConsumedMediaModal extends Modal {
         this.plugin = plugin;
     }
 
-    onOpen() {
+    async onOpen() {
         const { contentEl } = this;
-        const completedCount = this.plugin.data.queue.filter(item => item.status === 'completed').length;
-
         contentEl.empty();
-        contentEl.createEl('h3', { text: 'Clean consumed media?' });
-        contentEl.createEl('p', {
-            text: completedCount > 0
-                ? `This will permanently delete ${completedCount} completed media file(s) and remove them from the queue.`
-                : 'There are no completed media files to clean right now.'
-        });
+        contentEl.createEl('h3', { text: 'Storage Audit Log' });
 
-        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
-
-        const cancelBtn = actions.createEl('button', { text: completedCount > 0 ? 'Cancel' : 'Close' });
-        cancelBtn.onclick = () => this.close();
+        const entries = await this.plugin.readStorageAudit();
+        if (entries.length === 0) {
+            contentEl.createEl('p', { text: 'No storage policy actions have been taken yet.', cls: 'cross-player-muted-text' });
+        }
 
-        if (completedCount > 0) {
-            const confirmBtn = actions.createEl('button', { text: 'Clean Media', cls: 'mod-warning' });
-            confirmBtn.onclick = async () => {
-                this.close();
-                await this.plugin.cleanConsumedMedia();
-            };
+        const list = contentEl.createDiv({ cls: 'cross-player-sync-status-list cross-player-backup-list' });
+        for (const entry of entries) {
+            const row = list.createDiv({ cls: 'cross-player-sync-status-row' });
+            const size = entry.bytes ? ` • ${(entry.bytes / (1024 * 1024)).toFixed(1)} MB` : '';
+            row.createEl('strong', { text: `${new Date(entry.at).toLocaleString()} • ${entry.deviceName}${size}` });
+            row.createSpan({ text: entry.detail });
         }
+
+        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
+        const closeBtn = actions.createEl('button', { text: 'Close' });
+        closeBtn.onclick = () => this.close();
     }
 
     onClose() {
@@ -2149,7 +5182,7 @@ class ConfirmCleanConsumedMediaModal extends Modal {
     }
 }
 
-class ConsumptionStatsModal extends Modal {
+class DataBackupModal extends Modal {
     plugin: CrossPlayerPlugin;
 
     constructor(app: App, plugin: CrossPlayerPlugin) {
@@ -2157,41 +5190,103 @@ class ConsumptionStatsModal extends Modal {
         this.plugin = plugin;
     }
 
-    onOpen() {
+    async onOpen() {
         const { contentEl } = this;
-        const today = this.plugin.getConsumptionSummary(1);
-        const week = this.plugin.getConsumptionSummary(7);
-        const month = this.plugin.getConsumptionSummary(30);
-        const allTime = this.plugin.getConsumptionSummary();
+        contentEl.empty();
+        contentEl.createEl('h3', { text: 'Restore Data from Backup' });
+
+        const backups = await this.plugin.listDataBackups();
+        if (backups.length === 0) {
+            contentEl.createEl('p', { text: 'No backups yet. One is made at most hourly while the plugin saves data.', cls: 'cross-player-muted-text' });
+        }
+
+        const deviceNames = new Map((await this.plugin.readDeviceStatuses()).map(device => [device.id, device.name]));
+        const list = contentEl.createDiv({ cls: 'cross-player-backup-list' });
+        for (const backup of backups) {
+            const row = list.createDiv({ cls: 'cross-player-backup-row', text: new Date(backup.createdAt).toLocaleString() });
+            const deviceName = backup.deviceId === this.plugin.deviceId
+                ? 'This device'
+                : (deviceNames.get(backup.deviceId) ?? (backup.deviceId || 'Shared'));
+            row.createSpan({ text: ` · ${deviceName}`, cls: 'cross-player-muted-text' });
+            row.onclick = () => {
+                void this.showBackup(backup);
+            };
+        }
 
+        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
+        const closeBtn = actions.createEl('button', { text: 'Close' });
+        closeBtn.onclick = () => this.close();
+    }
+
+    async showBackup(backupInfo: DataBackupInfo) {
+        const { contentEl } = this;
+        const backup = await this.plugin.readDataBackup(backupInfo.path);
         contentEl.empty();
-        contentEl.createEl('h3', { text: 'Consumption Statistics' });
+        contentEl.createEl('h3', { text: `Backup from ${new Date(backupInfo.createdAt).toLocaleString()}` });
 
-        const summary = contentEl.createDiv({ cls: 'cross-player-consumption-summary' });
-        const rows = [
-            ['Today', today],
-            ['Last 7 days', week],
-            ['Last 30 days', month],
-            ['All time', allTime]
-        ] as const;
+        if (!backup) {
+            contentEl.createEl('p', { text: 'This backup could not be read.' });
+        } else {
+            const diff = diffQueueSnapshot(this.plugin.data.queue, backup);
+            const summary = contentEl.createDiv({ cls: 'cross-player-sync-status-list' });
+
+            const renderGroup = (title: string, lines: string[]) => {
+                if (lines.length === 0) return;
+                const row = summary.createDiv({ cls: 'cross-player-sync-status-row' });
+                row.createEl('strong', { text: `${title} (${lines.length})` });
+                // Long queues would make the modal unusable; the counts already tell the story.
+                for (const line of lines.slice(0, 10)) {
+                    row.createSpan({ text: line });
+                }
+                if (lines.length > 10) {
+                    row.createSpan({ text: `…and ${lines.length - 10} more`, cls: 'cross-player-muted-text' });
+                }
+            };
 
-        rows.forEach(([label, data]) => {
-            const row = summary.createDiv({ cls: 'cross-player-consumption-row' });
-            row.createEl('strong', { text: label });
-            row.createSpan({ text: `${this.plugin.formatDuration(data.seconds)} watched` });
-            row.createSpan({ text: `${data.completedCount} item(s) completed` });
-            if (label === 'All time') {
-                row.createSpan({ text: `${data.trackedDays} tracked day(s)` });
+            renderGroup('Restoring adds', diff.added.map(item => item.name));
+            renderGroup('Restoring removes', diff.removed.map(item => item.name));
+            renderGroup('Position changes', diff.positionChanges.map(change =>
+                `${change.item.name}: ${this.plugin.formatPlaybackTime(change.currentPosition)} → ${this.plugin.formatPlaybackTime(change.backupPosition)}`));
+
+            if (diff.orderChanged) {
+                summary.createDiv({ cls: 'cross-player-sync-status-row', text: 'Queue order differs from the current queue.' });
+            }
+            if (diff.added.length === 0 && diff.removed.length === 0 && diff.positionChanges.length === 0 && !diff.orderChanged) {
+                contentEl.createEl('p', { text: 'The queue in this backup matches the current queue.', cls: 'cross-player-muted-text' });
             }
-        });
 
-        const hint = contentEl.createEl('p', {
-            text: 'Stats are stored as small daily buckets, so they stay compact even over long periods.'
-        });
-        hint.addClass('cross-player-muted-text');
+            let includeSettings = false;
+            new Setting(contentEl)
+                .setName('Also Restore Settings')
+                .setDesc('Replaces every plugin setting with the one in this backup.')
+                .addToggle(toggle => toggle
+                    .setValue(includeSettings)
+                    .onChange((value) => {
+                        includeSettings = value;
+                    }));
+
+            const restoreActions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
+            const positionsBtn = restoreActions.createEl('button', { text: 'Restore Positions Only' });
+            positionsBtn.disabled = diff.positionChanges.length === 0;
+            positionsBtn.onclick = async () => {
+                this.close();
+                await this.plugin.restoreDataBackup(backup, true);
+                new Notice(`Restored ${diff.positionChanges.length} playback position(s).`);
+            };
 
-        const closeBtn = contentEl.createEl('button', { text: 'Close' });
-        closeBtn.onclick = () => this.close();
+            const restoreQueueBtn = restoreActions.createEl('button', { text: 'Restore Queue', cls: 'mod-warning' });
+            restoreQueueBtn.onclick = async () => {
+                this.close();
+                await this.plugin.restoreDataBackup(backup, false, includeSettings);
+                new Notice(includeSettings ? 'Queue and settings restored.' : 'Queue restored.');
+            };
+        }
+
+        const actions = contentEl.createDiv({ cls: 'cross-player-modal-actions' });
+        const backBtn = actions.createEl('button', { text: 'Back' });
+        backBtn.onclick = () => {
+            void this.onOpen();
+        };
     }
 
     onClose() {
@@ -2237,6 +5332,37 @@ class CrossPlayerSettingTab extends PluginSettingTab {
                     await this.plugin.saveData();
                 }));
 
+        new Setting(containerEl)
+            .setName('Folder Speed Rules')
+            .setDesc('Play media in these subfolders of the watched folder at a fixed speed. A speed remembered for a single item still wins.')
+            .addButton(button => button
+                .setButtonText('Add Folder')
+                .onClick(() => {
+                    const existing = this.plugin.data.settings.folderSpeedRules.map(rule => rule.folder);
+                    new RuleFolderSuggestModal(this.app, this.plugin, existing, 'Pick a folder to give its own speed', folder => {
+                        void this.plugin.setFolderSpeedRule(folder.path, this.plugin.data.settings.defaultPlaybackSpeed).then(() => this.display());
+                    }).open();
+                }));
+
+        for (const rule of this.plugin.data.settings.folderSpeedRules) {
+            new Setting(containerEl)
+                .setName(rule.folder)
+                .addSlider(slider => slider
+                    .setLimits(0.5, 5.0, 0.1)
+                    .setValue(rule.speed)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        await this.plugin.setFolderSpeedRule(rule.folder, value);
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove rule')
+                    .onClick(async () => {
+                        await this.plugin.setFolderSpeedRule(rule.folder, null);
+                        this.display();
+                    }));
+        }
+
         new Setting(containerEl)
             .setName('Seek Forward Seconds')
             .setDesc('Number of seconds to seek forward.')
@@ -2315,6 +5441,58 @@ class CrossPlayerSettingTab extends PluginSettingTab {
                     this.plugin.listView?.refresh();
                 }));
 
+        new Setting(containerEl).setName('Subtitles').setHeading();
+
+        new Setting(containerEl)
+            .setName('Preferred Subtitle Languages')
+            .setDesc('Comma-separated language codes (e.g. "fr, en"). The first matching sidecar subtitle track is enabled automatically.')
+            .addText(text => text
+                .setPlaceholder('e.g. fr, en')
+                .setValue(this.plugin.data.settings.preferredSubtitleLanguages)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.preferredSubtitleLanguages = value;
+                    await this.plugin.saveData();
+                }));
+
+        new Setting(containerEl)
+            .setName('Subtitle Font Size')
+            .setDesc('Scale subtitle text relative to the browser default.')
+            .addSlider(slider => slider
+                .setLimits(50, 250, 10)
+                .setValue(this.plugin.data.settings.subtitleFontSizePercent)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.data.settings.subtitleFontSizePercent = value;
+                    await this.plugin.saveData(false);
+                    this.plugin.mainView?.applySubtitleStyle();
+                }));
+
+        new Setting(containerEl)
+            .setName('Subtitle Background Opacity')
+            .setDesc('Opacity of the box behind subtitle text, from 0 (transparent) to 100.')
+            .addSlider(slider => slider
+                .setLimits(0, 100, 5)
+                .setValue(this.plugin.data.settings.subtitleBackgroundOpacity)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.data.settings.subtitleBackgroundOpacity = value;
+                    await this.plugin.saveData(false);
+                    this.plugin.mainView?.applySubtitleStyle();
+                }));
+
+        new Setting(containerEl)
+            .setName('Subtitle Vertical Position')
+            .setDesc('Distance of subtitles from the top of the video, in percent. 100 keeps the default position at the bottom.')
+            .addSlider(slider => slider
+                .setLimits(10, 100, 5)
+                .setValue(this.plugin.data.settings.subtitleVerticalPosition)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.data.settings.subtitleVerticalPosition = value;
+                    await this.plugin.saveData(false);
+                    this.plugin.mainView?.applySubtitleAdjustments();
+                }));
+
         new Setting(containerEl).setName('Audio').setHeading();
 
         new Setting(containerEl)
@@ -2340,6 +5518,125 @@ class CrossPlayerSettingTab extends PluginSettingTab {
                     this.plugin.mainView?.applyAudioSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Loudness Normalization')
+            .setDesc('Level-match items with a per-item replay gain measured from the audio, without compression. Items are analyzed the first time they play.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.data.settings.loudnessNormalization)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.loudnessNormalization = value;
+                    await this.plugin.saveData(false);
+                    this.plugin.mainView?.applyAudioSettings();
+                }))
+            .addButton(button => button
+                .setButtonText('Analyze Queue')
+                .onClick(() => {
+                    void this.plugin.analyzeQueueLoudness();
+                }));
+
+        new Setting(containerEl)
+            .setName('Target Loudness (LUFS)')
+            .setDesc('Loudness that normalized items are matched to. -18 is the ReplayGain reference; -16 suits phones.')
+            .addSlider(slider => slider
+                .setLimits(-24, -14, 1)
+                .setValue(this.plugin.data.settings.loudnessTargetLufs)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.data.settings.loudnessTargetLufs = value;
+                    await this.plugin.saveData(false);
+                    this.plugin.mainView?.applyAudioSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Skip Silence')
+            .setDesc('Speed through sustained quiet stretches, such as dead air in podcasts and lectures.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.data.settings.skipSilence)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.skipSilence = value;
+                    await this.plugin.saveData(false);
+                    this.plugin.mainView?.applyAudioSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Silence Threshold (dB)')
+            .setDesc('Audio quieter than this counts as silence. Raise it for noisy recordings.')
+            .addSlider(slider => slider
+                .setLimits(-70, -20, 1)
+                .setValue(this.plugin.data.settings.skipSilenceThresholdDb)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.data.settings.skipSilenceThresholdDb = value;
+                    await this.plugin.saveData(false);
+                }));
+
+        new Setting(containerEl)
+            .setName('Equalizer Preset')
+            .setDesc('Default equalizer for all media. Items and folders can pick their own preset.')
+            .addDropdown(dropdown => {
+                for (const [preset, { label }] of Object.entries(EQUALIZER_PRESETS)) {
+                    dropdown.addOption(preset, label);
+                }
+                dropdown
+                    .setValue(this.plugin.data.settings.equalizerPreset)
+                    .onChange(async (value) => {
+                        this.plugin.data.settings.equalizerPreset = value as EqualizerPresetId;
+                        await this.plugin.saveData(false);
+                        this.plugin.mainView?.applyAudioSettings();
+                    });
+            });
+
+        EQUALIZER_BANDS.forEach((band, index) => {
+            new Setting(containerEl)
+                .setName(`Custom EQ: ${band.label}`)
+                .setDesc(index === 0 ? 'Gain in dB for the Custom preset.' : '')
+                .addSlider(slider => slider
+                    .setLimits(-12, 12, 1)
+                    .setValue(this.plugin.data.settings.customEqualizerGains[index] ?? 0)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        const gains = EQUALIZER_BANDS.map((_, bandIndex) => this.plugin.data.settings.customEqualizerGains[bandIndex] ?? 0);
+                        gains[index] = value;
+                        this.plugin.data.settings.customEqualizerGains = gains;
+                        await this.plugin.saveData(false);
+                        this.plugin.mainView?.applyAudioSettings();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Folder Equalizer Rules')
+            .setDesc('Use a different preset for media in these subfolders of the watched folder. A preset picked for a single item still wins.')
+            .addButton(button => button
+                .setButtonText('Add Folder')
+                .onClick(() => {
+                    const existing = this.plugin.data.settings.folderEqualizerRules.map(rule => rule.folder);
+                    new RuleFolderSuggestModal(this.app, this.plugin, existing, 'Pick a folder to give its own equalizer preset', folder => {
+                        void this.plugin.setFolderEqualizerRule(folder.path, 'voice').then(() => this.display());
+                    }).open();
+                }));
+
+        for (const rule of this.plugin.data.settings.folderEqualizerRules) {
+            new Setting(containerEl)
+                .setName(rule.folder)
+                .addDropdown(dropdown => {
+                    for (const [preset, { label }] of Object.entries(EQUALIZER_PRESETS)) {
+                        dropdown.addOption(preset, label);
+                    }
+                    dropdown
+                        .setValue(rule.preset)
+                        .onChange(async (value) => {
+                            await this.plugin.setFolderEqualizerRule(rule.folder, value as EqualizerPresetId);
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove rule')
+                    .onClick(async () => {
+                        await this.plugin.setFolderEqualizerRule(rule.folder, null);
+                        this.display();
+                    }));
+        }
+
         new Setting(containerEl).setName('Consumption Statistics').setHeading();
 
         const allTime = this.plugin.getConsumptionSummary();
@@ -2352,6 +5649,33 @@ class CrossPlayerSettingTab extends PluginSettingTab {
                     new ConsumptionStatsModal(this.app, this.plugin).open();
                 }));
 
+        new Setting(containerEl).setName('Sync & Backups').setHeading();
+
+        new Setting(containerEl)
+            .setName('Sync Status')
+            .setDesc('Devices sharing this vault and any detected sync problems.')
+            .addButton(button => button
+                .setButtonText('Open Sync Status')
+                .onClick(() => {
+                    new SyncStatusModal(this.app, this.plugin).open();
+                }));
+
+        new Setting(containerEl)
+            .setName('Data Backups')
+            .setDesc(`A snapshot of the queue and settings is kept at most hourly in the plugin folder (last ${MAX_DATA_BACKUPS} per device).`)
+            .addButton(button => button
+                .setButtonText('Back Up Now')
+                .onClick(async () => {
+                    if (await this.plugin.createDataBackup()) {
+                        new Notice('Backup created.');
+                    }
+                }))
+            .addButton(button => button
+                .setButtonText('Restore…')
+                .onClick(() => {
+                    new DataBackupModal(this.app, this.plugin).open();
+                }));
+
         new Setting(containerEl).setName('Downloads & Storage').setHeading();
 
         new Setting(containerEl)
@@ -2375,46 +5699,255 @@ class CrossPlayerSettingTab extends PluginSettingTab {
                 }));
 
         new Setting(containerEl)
-            .setName('JS Runtime Path')
-            .setDesc('Absolute path to node, deno or bun (required for YouTube signature extraction).')
+            .setName('JS Runtime Path')
+            .setDesc('Absolute path to node, deno or bun (required for YouTube signature extraction).')
+            .addText(text => text
+                .setPlaceholder('e.g. /usr/local/bin/node')
+                .setValue(this.plugin.data.settings.jsRuntimePath)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.jsRuntimePath = value;
+                    await this.plugin.saveData();
+                }));
+
+        new Setting(containerEl)
+            .setName('Download Folder')
+            .setDesc('Folder to save downloads (relative to vault). Leave empty to use Watched Folder.')
+            .addText(text => text
+                .setValue(this.plugin.data.settings.downloadFolder)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.downloadFolder = value;
+                    await this.plugin.saveData();
+                }));
+
+        new Setting(containerEl)
+            .setName('Max Concurrent Downloads')
+            .setDesc('Downloads beyond this run one after another, in the order they were added.')
+            .addSlider(slider => slider
+                .setLimits(1, 5, 1)
+                .setValue(this.plugin.data.settings.maxConcurrentDownloads)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.data.settings.maxConcurrentDownloads = value;
+                    await this.plugin.saveData();
+                    this.plugin.scheduleDownloads();
+                }));
+
+        const hourOptions: Record<string, string> = {};
+        for (let hour = 0; hour < 24; hour++) {
+            hourOptions[String(hour)] = this.plugin.formatDownloadWindowHour(hour);
+        }
+
+        new Setting(containerEl)
+            .setName('Download Window')
+            .setDesc('Only start downloads between these hours (local time). Running downloads are not stopped when the window closes.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.data.settings.downloadWindowEnabled)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.downloadWindowEnabled = value;
+                    await this.plugin.saveData();
+                    this.plugin.scheduleDownloads();
+                    this.plugin.listView?.updateDownloadProgress();
+                }))
+            .addDropdown(dropdown => dropdown
+                .addOptions(hourOptions)
+                .setValue(String(this.plugin.data.settings.downloadWindowStartHour))
+                .onChange(async (value) => {
+                    this.plugin.data.settings.downloadWindowStartHour = parseInt(value, 10);
+                    await this.plugin.saveData();
+                    this.plugin.scheduleDownloads();
+                    this.plugin.listView?.updateDownloadProgress();
+                }))
+            .addDropdown(dropdown => dropdown
+                .addOptions(hourOptions)
+                .setValue(String(this.plugin.data.settings.downloadWindowEndHour))
+                .onChange(async (value) => {
+                    this.plugin.data.settings.downloadWindowEndHour = parseInt(value, 10);
+                    await this.plugin.saveData();
+                    this.plugin.scheduleDownloads();
+                    this.plugin.listView?.updateDownloadProgress();
+                }));
+
+        new Setting(containerEl)
+            .setName('Storage Limit (GB)')
+            .setDesc('Fallback storage limit in Gigabytes, used until a device reports its free space.')
+            .addText(text => text
+                .setPlaceholder('10')
+                .setValue(String(this.plugin.data.settings.storageLimitGB || 10))
+                .onChange(async (value) => {
+                    const limit = parseFloat(value);
+                    if (!isNaN(limit) && limit > 0) {
+                        this.plugin.data.settings.storageLimitGB = limit;
+                        await this.plugin.saveData();
+                        void this.plugin.calculateDynamicLimit();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Storage Reserve (GB)')
+            .setDesc('Space to keep free on the fullest device. The limit is the queue size plus the smallest free space reported in the last hour, minus this reserve.')
+            .addText(text => text
+                .setPlaceholder('5')
+                .setValue(String(this.plugin.data.settings.storageReserveGB ?? 5))
+                .onChange(async (value) => {
+                    const reserve = parseFloat(value);
+                    if (!isNaN(reserve) && reserve >= 0) {
+                        this.plugin.data.settings.storageReserveGB = reserve;
+                        await this.plugin.saveData();
+                        void this.plugin.calculateDynamicLimit();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Trash Completed Items Over Limit')
+            .setDesc('When the queue exceeds the storage limit, move completed items to the trash, oldest completion first, until it fits.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.data.settings.autoTrashCompletedOverLimit)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.autoTrashCompletedOverLimit = value;
+                    await this.plugin.saveData();
+                    if (value) void this.plugin.enforceStoragePolicy();
+                }));
+
+        new Setting(containerEl)
+            .setName('Pause Downloads Over Limit')
+            .setDesc('Add new downloads paused instead of starting them while the queue exceeds the storage limit.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.data.settings.pauseDownloadsOverLimit)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.pauseDownloadsOverLimit = value;
+                    await this.plugin.saveData();
+                }));
+
+        new Setting(containerEl)
+            .setName('Refuse Files Over Limit')
+            .setDesc('Leave new files in the watched folder out of the queue when adding them would exceed the storage limit.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.data.settings.refuseFilesOverLimit)
+                .onChange(async (value) => {
+                    this.plugin.data.settings.refuseFilesOverLimit = value;
+                    await this.plugin.saveData();
+                }));
+
+        new Setting(containerEl)
+            .setName('Storage Audit Log')
+            .setDesc('Every action taken by the policies above, from all devices.')
+            .addButton(button => button
+                .setButtonText('View Log')
+                .onClick(() => {
+                    new StorageAuditModal(this.app, this.plugin).open();
+                }));
+
+        new Setting(containerEl).setName('Subscriptions').setHeading();
+
+        let subscriptionUrl = '';
+        new Setting(containerEl)
+            .setName('Add Subscription')
+            .setDesc('A YouTube channel (its /videos page), playlist or podcast RSS/Atom feed link. New entries download into a subfolder of the download folder while desktop Obsidian is open.')
             .addText(text => text
-                .setPlaceholder('e.g. /usr/local/bin/node')
-                .setValue(this.plugin.data.settings.jsRuntimePath)
-                .onChange(async (value) => {
-                    this.plugin.data.settings.jsRuntimePath = value;
-                    await this.plugin.saveData();
+                .setPlaceholder('https://youtube.com/@channel/videos')
+                .onChange((value) => {
+                    subscriptionUrl = value.trim();
+                }))
+            .addButton(button => button
+                .setButtonText('Subscribe')
+                .onClick(async () => {
+                    if (!subscriptionUrl) return;
+                    button.setDisabled(true);
+                    const subscription = await this.plugin.addSubscription(subscriptionUrl);
+                    button.setDisabled(false);
+                    if (subscription) {
+                        new Notice(`Subscribed to ${subscription.name}.`);
+                        this.display();
+                    }
                 }));
 
         new Setting(containerEl)
-            .setName('Download Folder')
-            .setDesc('Folder to save downloads (relative to vault). Leave empty to use Watched Folder.')
-            .addText(text => text
-                .setValue(this.plugin.data.settings.downloadFolder)
+            .setName('Check Every')
+            .setDesc('Every desktop with Obsidian open checks on its own, so two desktops open at the same time can both download a new entry.')
+            .addDropdown(dropdown => {
+                for (const minutes of SUBSCRIPTION_CHECK_INTERVAL_CHOICES) {
+                    dropdown.addOption(String(minutes), minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour(s)`);
+                }
+                dropdown
+                    .setValue(String(this.plugin.data.settings.subscriptionCheckIntervalMinutes))
+                    .onChange(async (value) => {
+                        this.plugin.data.settings.subscriptionCheckIntervalMinutes = parseInt(value, 10);
+                        await this.plugin.saveData();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Newest Entries per Check')
+            .setDesc('Only this many of the newest entries are looked at, so subscribing never pulls in a whole back catalogue.')
+            .addSlider(slider => slider
+                .setLimits(1, 20, 1)
+                .setValue(this.plugin.data.settings.subscriptionMaxNewEntries)
+                .setDynamicTooltip()
                 .onChange(async (value) => {
-                    this.plugin.data.settings.downloadFolder = value;
+                    this.plugin.data.settings.subscriptionMaxNewEntries = value;
                     await this.plugin.saveData();
                 }));
 
-        new Setting(containerEl)
-            .setName('Storage Limit (GB)')
-            .setDesc('Manual storage limit in Gigabytes.')
-            .addText(text => text
-                .setPlaceholder('10')
-                .setValue(String(this.plugin.data.settings.storageLimitGB || 10))
-                .onChange(async (value) => {
-                    const limit = parseFloat(value);
-                    if (!isNaN(limit) && limit > 0) {
-                        this.plugin.data.settings.storageLimitGB = limit;
+        for (const subscription of this.plugin.data.settings.subscriptions) {
+            const lastChecked = subscription.lastCheckedAt ? new Date(subscription.lastCheckedAt).toLocaleString() : 'never';
+            const row = new Setting(containerEl)
+                .setName(subscription.kind === 'podcast' ? `${subscription.name} (podcast)` : subscription.name)
+                .setDesc(subscription.lastError ? `${subscription.url} — last check failed: ${subscription.lastError}` : `${subscription.url} — last checked ${lastChecked}`);
+
+            // Podcast episodes are downloaded as published, so type and quality only apply to yt-dlp.
+            if (subscription.kind !== 'podcast') {
+                row
+                    .addDropdown(dropdown => dropdown
+                        .addOption('video', 'Video')
+                        .addOption('audio', 'Audio')
+                        .setValue(subscription.type)
+                        .onChange(async (value) => {
+                            subscription.type = value as 'video' | 'audio';
+                            await this.plugin.saveData();
+                        }))
+                    .addDropdown(dropdown => dropdown
+                        .addOption('best', 'Best')
+                        .addOption('1080p', '1080p')
+                        .addOption('720p', '720p')
+                        .addOption('480p', '480p')
+                        .setValue(subscription.quality)
+                        .onChange(async (value) => {
+                            subscription.quality = value;
+                            await this.plugin.saveData();
+                        }));
+            }
+
+            row
+                .addToggle(toggle => toggle
+                    .setTooltip('Check automatically')
+                    .setValue(subscription.enabled)
+                    .onChange(async (value) => {
+                        subscription.enabled = value;
                         await this.plugin.saveData();
-                        void this.plugin.calculateDynamicLimit();
-                    }
-                }));
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('refresh-cw')
+                    .setTooltip('Check now')
+                    .onClick(async () => {
+                        const count = await this.plugin.checkSubscriptionNow(subscription);
+                        if (count === 0) new Notice(`No new entries in ${subscription.name}.`);
+                        this.display();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Unsubscribe')
+                    .onClick(async () => {
+                        await this.plugin.removeSubscription(subscription.id);
+                        this.display();
+                    }));
+        }
     }
 }
 
 class CrossPlayerListView extends ItemView {
     plugin: CrossPlayerPlugin;
     private savedScrollTop: number = 0;
+    private expandedBookmarkItemIds: Set<string> = new Set();
 
     constructor(leaf: WorkspaceLeaf, plugin: CrossPlayerPlugin) {
         super(leaf);
@@ -2456,11 +5989,7 @@ class CrossPlayerListView extends ItemView {
 
     updateStatsDisplay() {
         const stats = this.plugin.getQueueStats();
-        const speed = this.plugin.data.playbackSpeed || 1.0;
-        const adjustedDuration = stats.totalDuration / speed;
-        const limitBytes = this.plugin.dynamicStorageLimit;
-        const limitGB = limitBytes > 0 ? limitBytes / (1024 * 1024 * 1024) : 10;
-        const sizeInGB = stats.totalSize / (1024 * 1024 * 1024);
+        const adjustedDuration = stats.adjustedDuration;
 
         const etcEl = this.contentEl.querySelector<HTMLElement>(".cross-player-etc");
         if (etcEl) {
@@ -2469,11 +5998,23 @@ class CrossPlayerListView extends ItemView {
 
         const sizeEl = this.contentEl.querySelector<HTMLElement>(".cross-player-size");
         if (sizeEl) {
-            sizeEl.setText(`Size: ${sizeInGB.toFixed(2)} GB / ${limitGB.toFixed(1)} GB`);
-            sizeEl.toggleClass('is-over-limit', sizeInGB > limitGB);
+            this.renderSizeDisplay(sizeEl, stats.totalSize);
         }
     }
 
+    private renderSizeDisplay(sizeEl: HTMLElement, totalSize: number) {
+        const limitBytes = this.plugin.dynamicStorageLimit;
+        const limitGB = limitBytes > 0 ? limitBytes / (1024 * 1024 * 1024) : 10; // Default 10GB if waiting
+        const sizeInGB = totalSize / (1024 * 1024 * 1024);
+        const limitingDevice = this.plugin.limitingDevice;
+
+        sizeEl.setText(`Size: ${sizeInGB.toFixed(2)} GB / ${limitGB.toFixed(1)} GB${limitingDevice ? ` (${limitingDevice})` : ''}`);
+        sizeEl.setAttr('aria-label', limitingDevice === 'Manual Setting'
+            ? 'Storage limit from settings'
+            : `Storage limit set by the free space on ${limitingDevice}`);
+        sizeEl.toggleClass('is-over-limit', sizeInGB > limitGB);
+    }
+
     getDisplayNameParts(name: string): { title: string; extension: string } {
         const lastDotIndex = name.lastIndexOf(".");
         if (lastDotIndex <= 0 || lastDotIndex === name.length - 1) {
@@ -2572,7 +6113,6 @@ class CrossPlayerListView extends ItemView {
             new ConfirmCleanConsumedMediaModal(this.app, this.plugin).open();
         };
 
-        const speed = this.plugin.data.playbackSpeed || 1.0;
         const speedContainer = headerContainer.createDiv({ cls: "cross-player-speed-container" });
         const minusBtn = speedContainer.createDiv({ cls: "clickable-icon" });
         setIcon(minusBtn, "minus-circle");
@@ -2591,7 +6131,7 @@ class CrossPlayerListView extends ItemView {
         };
 
         const speedEl = speedContainer.createDiv({ cls: "cross-player-speed-display" });
-        speedEl.setText(`Speed: ${speed.toFixed(1)}x`);
+        speedEl.setText(this.getSpeedDisplayText());
 
         const plusBtn = speedContainer.createDiv({ cls: "clickable-icon" });
         setIcon(plusBtn, "plus-circle");
@@ -2610,12 +6150,7 @@ class CrossPlayerListView extends ItemView {
 
         // Stats Display
         const stats = this.plugin.getQueueStats();
-        const adjustedDuration = stats.totalDuration / speed;
-
-        // Dynamic Limit
-        const limitBytes = this.plugin.dynamicStorageLimit;
-        const limitGB = limitBytes > 0 ? limitBytes / (1024 * 1024 * 1024) : 10; // Default 10GB if waiting
-        const sizeInGB = stats.totalSize / (1024 * 1024 * 1024);
+        const adjustedDuration = stats.adjustedDuration;
 
         const statsContainer = headerContainer.createDiv({ cls: "cross-player-stats" });
         const etcText = `ETC: ${this.plugin.formatDuration(adjustedDuration)}`;
@@ -2623,8 +6158,8 @@ class CrossPlayerListView extends ItemView {
 
         statsContainer.createSpan({ text: " • " });
 
-        const sizeSpan = statsContainer.createSpan({ text: `Size: ${sizeInGB.toFixed(2)} GB / ${limitGB.toFixed(1)} GB`, cls: 'cross-player-size' });
-        sizeSpan.toggleClass('is-over-limit', sizeInGB > limitGB);
+        const sizeSpan = statsContainer.createSpan({ cls: 'cross-player-size' });
+        this.renderSizeDisplay(sizeSpan, stats.totalSize);
 
         // --- List (Scrollable) ---
         const list = container.createDiv({ cls: "cross-player-list cross-player-list-scroll" });
@@ -2682,9 +6217,22 @@ class CrossPlayerListView extends ItemView {
             // Let's set a fixed width/height for the container to control size if needed, but usually it's fine.
             // I'll just add the element.
 
+            const isPresent = this.plugin.isPresentLocally(item);
+            const isKept = this.plugin.isKeptOnDevice(item);
+            if (!isPresent || isKept) {
+                const availabilityIcon = itemEl.createDiv({ cls: "cross-player-availability-icon" });
+                setIcon(availabilityIcon, isPresent ? "pin" : "cloud-off");
+                availabilityIcon.setAttr('aria-label', isPresent
+                    ? 'Kept on this device'
+                    : (isKept ? 'Kept on this device, but the file has not synced yet' : 'Not on this device'));
+            }
+            itemEl.toggleClass('is-missing-locally', !isPresent);
+
             // Name
             const nameEl = itemEl.createDiv({ cls: "cross-player-name" });
-            nameEl.title = item.path;
+            nameEl.title = item.silenceSkippedSeconds
+                ? `${item.path}\nSkip silence saved ${this.plugin.formatDuration(item.silenceSkippedSeconds)}`
+                : item.path;
             if (this.plugin.data.settings.wrapQueueText) {
                 nameEl.addClass("is-wrapped");
             }
@@ -2730,15 +6278,73 @@ class CrossPlayerListView extends ItemView {
                         })
                 );
 
+                if (item.episode) {
+                    const episode = item.episode;
+                    menu.addItem((menuItem) =>
+                        menuItem
+                            .setTitle("Show Notes")
+                            .setIcon("file-text")
+                            .onClick(() => {
+                                new EpisodeNotesModal(this.app, this.plugin, episode).open();
+                            })
+                    );
+                }
+
+                menu.addItem((menuItem) =>
+                    menuItem
+                        .setTitle("Keep on This Device")
+                        .setIcon("pin")
+                        .setChecked(this.plugin.isKeptOnDevice(item))
+                        .onClick(() => {
+                            this.captureScrollPosition();
+                            this.plugin.setKeptOnDevice(item, !this.plugin.isKeptOnDevice(item));
+                        })
+                );
+
+                if (item.playbackSpeed) {
+                    menu.addItem((menuItem) =>
+                        menuItem
+                            .setTitle(`Clear Speed Override (${item.playbackSpeed.toFixed(1)}x)`)
+                            .setIcon("gauge")
+                            .onClick(() => {
+                                this.captureScrollPosition();
+                                void this.plugin.setItemSpeedOverride(item, null);
+                            })
+                    );
+                }
+
                 menu.showAtPosition({ x: event.clientX, y: event.clientY });
             });
 
             // Controls
             const controls = itemEl.createDiv({ cls: "cross-player-controls cross-player-controls-compact" });
 
+            const bookmarks = item.bookmarks ?? [];
+            const isExpanded = bookmarks.length > 0 && this.expandedBookmarkItemIds.has(item.id);
+            if (bookmarks.length > 0) {
+                const bookmarksBtn = controls.createDiv({ cls: "clickable-icon" });
+                setIcon(bookmarksBtn, isExpanded ? "bookmark-minus" : "bookmark");
+                bookmarksBtn.ariaLabel = isExpanded ? "Hide Bookmarks" : `Show Bookmarks (${bookmarks.length})`;
+                bookmarksBtn.onclick = (e) => {
+                    e.stopPropagation();
+                    this.captureScrollPosition();
+                    if (isExpanded) {
+                        this.expandedBookmarkItemIds.delete(item.id);
+                    } else {
+                        this.expandedBookmarkItemIds.add(item.id);
+                    }
+                    this.refresh();
+                };
+            }
+
             // Drag Handle
             const handle = controls.createDiv({ cls: "clickable-icon sortable-handle" });
             setIcon(handle, "grip-horizontal");
+
+            if (isExpanded) {
+                itemEl.addClass('is-expanded');
+                this.renderBookmarkList(itemEl, item, bookmarks);
+            }
         });
 
         Sortable.create(list, {
@@ -2777,17 +6383,37 @@ class CrossPlayerListView extends ItemView {
         }
     }
 
+    renderBookmarkList(itemEl: HTMLElement, item: MediaItem, bookmarks: MediaBookmark[]) {
+        const bookmarkList = itemEl.createDiv({ cls: "cross-player-bookmark-list" });
+
+        bookmarks.forEach((bookmark) => {
+            const row = bookmarkList.createDiv({ cls: "cross-player-bookmark" });
+            row.createSpan({ text: this.plugin.formatPlaybackTime(bookmark.time), cls: "cross-player-bookmark-time" });
+            row.createSpan({ text: bookmark.note || "", cls: "cross-player-bookmark-note" });
+
+            row.onclick = (e) => {
+                e.stopPropagation();
+                this.captureScrollPosition();
+                void this.plugin.playMediaAt(item, bookmark.time);
+            };
+
+            const removeBtn = row.createDiv({ cls: "clickable-icon" });
+            setIcon(removeBtn, "x");
+            removeBtn.ariaLabel = "Remove Bookmark";
+            removeBtn.onclick = (e) => {
+                e.stopPropagation();
+                this.captureScrollPosition();
+                void this.plugin.removeBookmark(item, bookmark.id);
+            };
+        });
+    }
+
     updateStats() {
         const statsContainer = this.contentEl.querySelector(".cross-player-stats");
         if (!statsContainer) return;
 
-        const speed = this.plugin.data.playbackSpeed || 1.0;
         const stats = this.plugin.getQueueStats();
-        const adjustedDuration = stats.totalDuration / speed;
-
-        const limitBytes = this.plugin.dynamicStorageLimit;
-        const limitGB = limitBytes > 0 ? limitBytes / (1024 * 1024 * 1024) : 10;
-        const sizeInGB = stats.totalSize / (1024 * 1024 * 1024);
+        const adjustedDuration = stats.adjustedDuration;
 
         statsContainer.empty();
 
@@ -2796,8 +6422,8 @@ class CrossPlayerListView extends ItemView {
 
         statsContainer.createSpan({ text: " • " });
 
-        const sizeSpan = statsContainer.createSpan({ text: `Size: ${sizeInGB.toFixed(2)} GB / ${limitGB.toFixed(1)} GB` });
-        sizeSpan.toggleClass('is-over-limit', sizeInGB > limitGB);
+        const sizeSpan = statsContainer.createSpan({ cls: 'cross-player-size' });
+        this.renderSizeDisplay(sizeSpan, stats.totalSize);
     }
 
     updateItemProgress(id: string, percentage: number) {
@@ -2875,7 +6501,7 @@ class CrossPlayerListView extends ItemView {
                 } else if (d.progress.includes('%')) {
                     totalProgress += parseFloat(d.progress) || 0;
                     count++;
-                } else if (d.status === 'downloading' || d.status === 'paused') {
+                } else if (d.status === 'downloading' || d.status === 'paused' || d.status === 'queued') {
                     // if progress not yet parsed, assume 0
                     count++;
                 }
@@ -2897,9 +6523,12 @@ class CrossPlayerListView extends ItemView {
             const nameRow = dlItem.createDiv({ attr: { style: "display: flex; justify-content: space-between; margin-bottom: 2px;" } });
             nameRow.createSpan({ text: dl.name, attr: { style: "overflow: hidden; text-overflow: ellipsis; white-space: nowrap; max-width: 70%; font-weight: bold;" } });
 
+            const waitingText = `Waiting for ${this.plugin.formatDownloadWindowHour(this.plugin.data.settings.downloadWindowStartHour)}`;
             let statusText = dl.progress;
-            if (dl.status === 'error') statusText = 'Error';
-            else if (dl.status === 'paused') statusText = 'Paused';
+            if (dl.status === 'queued') statusText = this.plugin.isWithinDownloadWindow() ? 'Queued' : waitingText;
+            else if (dl.status === 'error') statusText = 'Error';
+            // A destination means yt-dlp already wrote a .part file it can continue from.
+            else if (dl.status === 'paused') statusText = dl.destination ? `Paused at ${dl.progress}` : 'Paused';
             else if (dl.status === 'converting') statusText = 'Converting...';
 
             nameRow.createSpan({ text: statusText });
@@ -2929,8 +6558,14 @@ class CrossPlayerListView extends ItemView {
 
             const btnGroup = controlsRow.createDiv({ attr: { style: "display: flex; gap: 5px;" } });
 
+            if (dl.status === 'queued' && activeDownloads.find(d => d.status === 'queued') !== dl) {
+                const topBtn = btnGroup.createEl("button", { text: "Move to Top" });
+                topBtn.addClass('cross-player-download-button');
+                topBtn.onclick = () => this.plugin.prioritizeDownload(dl.id);
+            }
+
             // Pause/Resume Button
-            if (dl.status === 'downloading') {
+            if (dl.status === 'downloading' || dl.status === 'queued') {
                 const pauseBtn = btnGroup.createEl("button", { text: "Pause" });
                 pauseBtn.addClass('cross-player-download-button');
                 pauseBtn.onclick = () => this.plugin.pauseDownload(dl.id);
@@ -2954,12 +6589,223 @@ class CrossPlayerListView extends ItemView {
     updateSpeedDisplay() {
         const speedEl = this.contentEl.querySelector<HTMLElement>(".cross-player-speed-display");
         if (speedEl) {
-            const speed = this.plugin.data.playbackSpeed || 1.0;
-            speedEl.setText(`Speed: ${speed.toFixed(1)}x`);
+            speedEl.setText(this.getSpeedDisplayText());
             this.updateStatsDisplay();
         }
     }
 
+    getSpeedDisplayText(): string {
+        const currentItem = this.plugin.mainView?.currentItem;
+        const speed = this.plugin.getPlaybackSpeed(currentItem);
+        const source = this.plugin.getPlaybackSpeedSource(currentItem);
+        return source === 'global' ? `Speed: ${speed.toFixed(1)}x` : `Speed: ${speed.toFixed(1)}x (${source})`;
+    }
+
+}
+
+class CrossPlayerTranscriptView extends ItemView {
+    plugin: CrossPlayerPlugin;
+    cues: TranscriptCue[] = [];
+    searchQuery: string = '';
+    activeCueIndex: number = -1;
+    selectionStart: number | null = null;
+    selectionEnd: number | null = null;
+    listEl: HTMLElement | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: CrossPlayerPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType() {
+        return VIEW_TYPE_CROSS_PLAYER_TRANSCRIPT;
+    }
+
+    getDisplayText() {
+        return "Cross Player Transcript";
+    }
+
+    getIcon() {
+        return "scroll-text";
+    }
+
+    async onOpen() {
+        this.plugin.transcriptView = this;
+        this.plugin.mainView?.prepareTranscriptTrack();
+        this.render();
+    }
+
+    async onClose() {
+        if (this.plugin.transcriptView === this) {
+            this.plugin.transcriptView = null;
+        }
+        this.listEl = null;
+    }
+
+    render() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('cross-player-transcript-view');
+
+        const toolbar = container.createDiv({ cls: 'cross-player-transcript-toolbar' });
+        const searchInput = toolbar.createEl('input', {
+            type: 'search',
+            cls: 'cross-player-transcript-search',
+            attr: { placeholder: 'Search transcript' }
+        });
+        searchInput.value = this.searchQuery;
+        searchInput.addEventListener('input', () => {
+            this.searchQuery = searchInput.value;
+            this.renderLines();
+        });
+
+        const insertBtn = toolbar.createDiv({ cls: 'clickable-icon' });
+        setIcon(insertBtn, 'file-plus');
+        insertBtn.ariaLabel = 'Insert Selection into Note';
+        insertBtn.onclick = () => this.insertSelectionIntoNote();
+
+        const clearBtn = toolbar.createDiv({ cls: 'clickable-icon' });
+        setIcon(clearBtn, 'x-circle');
+        clearBtn.ariaLabel = 'Clear Selection';
+        clearBtn.onclick = () => {
+            this.clearSelection();
+            this.renderLines();
+        };
+
+        this.listEl = container.createDiv({ cls: 'cross-player-transcript-list' });
+        this.refresh();
+    }
+
+    // Reloads the cues and redraws only the lines, so the search box keeps its focus and query.
+    refresh() {
+        if (!this.listEl) {
+            this.render();
+            return;
+        }
+
+        const previousScrollTop = this.listEl.scrollTop;
+        const nextCues = this.plugin.mainView?.getTranscriptCues() ?? [];
+        if (nextCues.length !== this.cues.length) {
+            this.clearSelection();
+        }
+        this.cues = nextCues;
+        this.activeCueIndex = -1;
+
+        this.renderLines();
+        this.listEl.scrollTop = previousScrollTop;
+
+        const mainView = this.plugin.mainView;
+        if (mainView?.videoEl && mainView.isCurrentPlaybackSource()) {
+            this.updateActiveCue(mainView.videoEl.currentTime, false);
+        }
+    }
+
+    renderLines() {
+        const list = this.listEl;
+        if (!list) return;
+        list.empty();
+
+        if (this.cues.length === 0) {
+            list.createDiv({
+                text: this.plugin.mainView?.currentItem
+                    ? 'No subtitles are loaded for the current media.'
+                    : 'Nothing is playing.',
+                cls: 'cross-player-muted-text'
+            });
+            return;
+        }
+
+        const query = this.searchQuery.trim().toLowerCase();
+        const [rangeStart, rangeEnd] = this.getSelectionRange();
+
+        this.cues.forEach((cue, index) => {
+            if (query && !cue.text.toLowerCase().includes(query)) return;
+
+            const row = list.createDiv({ cls: 'cross-player-transcript-line' });
+            row.dataset.index = String(index);
+            row.toggleClass('is-active', index === this.activeCueIndex);
+            row.toggleClass('is-selected', rangeStart !== null && index >= rangeStart && index <= rangeEnd);
+
+            const timeEl = row.createSpan({ text: this.plugin.formatPlaybackTime(cue.startTime), cls: 'cross-player-transcript-time' });
+            timeEl.ariaLabel = 'Select range boundary';
+            timeEl.onclick = (e) => {
+                e.stopPropagation();
+                this.toggleSelectionBoundary(index);
+                this.renderLines();
+            };
+
+            row.createSpan({ text: cue.text, cls: 'cross-player-transcript-text' });
+            row.onclick = () => {
+                this.plugin.mainView?.seekTo(cue.startTime);
+            };
+        });
+    }
+
+    updateActiveCue(time: number, scroll: boolean = true) {
+        let nextIndex = -1;
+        for (let i = 0; i < this.cues.length; i++) {
+            if (this.cues[i].startTime > time) break;
+            if (time < this.cues[i].endTime) nextIndex = i;
+        }
+        if (nextIndex === this.activeCueIndex) return;
+
+        this.activeCueIndex = nextIndex;
+        this.listEl?.querySelectorAll('.cross-player-transcript-line.is-active').forEach(el => el.removeClass('is-active'));
+        const row = this.listEl?.querySelector<HTMLElement>(`.cross-player-transcript-line[data-index="${nextIndex}"]`);
+        if (row) {
+            row.addClass('is-active');
+            if (scroll) {
+                row.scrollIntoView({ block: 'nearest' });
+            }
+        }
+    }
+
+    toggleSelectionBoundary(index: number) {
+        // First tap starts a range, second tap closes it, a third tap starts over.
+        if (this.selectionStart === null || this.selectionEnd !== null) {
+            this.selectionStart = index;
+            this.selectionEnd = null;
+        } else {
+            this.selectionEnd = index;
+        }
+    }
+
+    clearSelection() {
+        this.selectionStart = null;
+        this.selectionEnd = null;
+    }
+
+    getSelectionRange(): [number | null, number] {
+        if (this.selectionStart === null) return [null, -1];
+        const end = this.selectionEnd ?? this.selectionStart;
+        return [Math.min(this.selectionStart, end), Math.max(this.selectionStart, end)];
+    }
+
+    insertSelectionIntoNote() {
+        const item = this.plugin.mainView?.currentItem;
+        if (!item || this.cues.length === 0) {
+            new Notice("No transcript to insert.");
+            return;
+        }
+
+        let [rangeStart, rangeEnd] = this.getSelectionRange();
+        if (rangeStart === null) {
+            // Without a selection, insert the line being spoken right now.
+            if (this.activeCueIndex < 0) {
+                new Notice("Select transcript lines by tapping their timestamps first.");
+                return;
+            }
+            rangeStart = this.activeCueIndex;
+            rangeEnd = this.activeCueIndex;
+        }
+
+        const lines = this.cues
+            .slice(rangeStart, rangeEnd + 1)
+            .map(cue => `- ${this.plugin.buildTimestampLink(item, cue.startTime)} ${cue.text}`);
+        if (this.plugin.insertIntoActiveNote(lines.join('\n') + '\n')) {
+            new Notice(`Inserted ${lines.length} transcript line(s).`);
+        }
+    }
 }
 
 class CrossPlayerMainView extends ItemView {
@@ -2972,6 +6818,9 @@ class CrossPlayerMainView extends ItemView {
     overlayCurrentTimeEl: HTMLElement | null = null;
     overlayDurationEl: HTMLElement | null = null;
     overlayFullscreenBtn: HTMLElement | null = null;
+    overlayChapterMarkersEl: HTMLElement | null = null;
+    handoffBannerEl: HTMLElement | null = null;
+    dismissedHandoffKey: string = '';
     audioPlaceholderEl: HTMLElement | null = null;
     currentItem: MediaItem | null = null;
     lastEtcUpdate: number = 0;
@@ -2980,9 +6829,26 @@ class CrossPlayerMainView extends ItemView {
     mediaSourceNode: MediaElementAudioSourceNode | null = null;
     gainNode: GainNode | null = null;
     compressorNode: DynamicsCompressorNode | null = null;
+    equalizerNodes: BiquadFilterNode[] = [];
     mobileOverlayHideTimeout: number | null = null;
     activeMediaSrc: string | null = null;
     lastPositionPersist: number = 0;
+    subtitleObjectUrls: string[] = [];
+    loopStart: number | null = null;
+    loopEnd: number | null = null;
+    sleepTimerTimeout: number | null = null;
+    sleepTimerEndsAt: number | null = null;
+    sleepAtEndOfItem: boolean = false;
+    isSleepFading: boolean = false;
+    analyserNode: AnalyserNode | null = null;
+    skipSilenceInterval: number | null = null;
+    silenceStartedAt: number | null = null; // media time where the current quiet stretch began
+    isSkippingSilence: boolean = false;
+    skipSilenceNormalRate: number = 1;
+    lastSilenceCheckTime: number | null = null;
+    pendingSilenceSavedSeconds: number = 0;
+    private silenceSamples: Float32Array | null = null;
+    private originalCueTimings: WeakMap<TextTrackCue, CueTiming> = new WeakMap();
 
     constructor(leaf: WorkspaceLeaf, plugin: CrossPlayerPlugin) {
         super(leaf);
@@ -3124,13 +6990,14 @@ class CrossPlayerMainView extends ItemView {
     }
 
     handleSyncedDataReload() {
+        this.updateHandoffBanner();
         if (!this.currentItem) return;
 
         const syncedItem = this.plugin.data.queue.find(item => item.id === this.currentItem?.id)
             || this.plugin.data.queue.find(item => item.path === this.currentItem?.path);
         if (!syncedItem) return;
 
-        const isActivelyPlayingLocally = !!this.videoEl && this.isCurrentPlaybackSource() && !this.videoEl.paused && !this.videoEl.ended;
+        const isActivelyPlayingLocally = this.isActivelyPlayingLocally();
         this.currentItem = syncedItem;
 
         // When this device is not actively playing, trust the synced position.
@@ -3141,16 +7008,80 @@ class CrossPlayerMainView extends ItemView {
             }
         }
 
+        this.applySubtitleAdjustments();
         this.updateOverlayProgress();
         if (this.plugin.listView) {
             this.plugin.listView.updateStats();
         }
     }
 
+    private isChangedByOtherDevice(item: MediaItem): boolean {
+        return !!item.playbackDeviceId && item.playbackDeviceId !== this.plugin.deviceId;
+    }
+
+    private getHandoffCandidate(): MediaItem | null {
+        const queue = this.plugin.data.queue;
+        const loadedItem = this.currentItem
+            ? queue.find(item => item.id === this.currentItem?.id) || queue.find(item => item.path === this.currentItem?.path)
+            : undefined;
+
+        const playingElsewhere = queue.find(item => item.status === 'playing' && item !== loadedItem && this.isChangedByOtherDevice(item));
+        if (playingElsewhere) return playingElsewhere;
+
+        // A paused player already follows the synced position, so only offer the jump while this device keeps playing.
+        if (loadedItem && this.isChangedByOtherDevice(loadedItem) && this.isActivelyPlayingLocally()
+            && Math.abs((loadedItem.position || 0) - this.videoEl.currentTime) > HANDOFF_MIN_POSITION_DIFFERENCE_SECONDS) {
+            return loadedItem;
+        }
+
+        return null;
+    }
+
+    updateHandoffBanner() {
+        const candidate = this.getHandoffCandidate();
+        const handoffKey = candidate ? `${candidate.playbackDeviceId}:${candidate.id}` : '';
+        if (!candidate || handoffKey === this.dismissedHandoffKey) {
+            this.hideHandoffBanner();
+            return;
+        }
+
+        const position = candidate.position || 0;
+        const deviceName = candidate.playbackDeviceName || 'Another device';
+
+        if (!this.handoffBannerEl) {
+            this.handoffBannerEl = this.contentEl.createDiv({ cls: 'cross-player-handoff-banner', prepend: true });
+        }
+        const banner = this.handoffBannerEl;
+        banner.empty();
+
+        const resumeEl = banner.createDiv({
+            cls: 'cross-player-handoff-text',
+            text: `${deviceName} was at ${this.plugin.formatPlaybackTime(position)} on ${candidate.name} — resume here?`
+        });
+        resumeEl.addEventListener('click', () => {
+            this.hideHandoffBanner();
+            void this.plugin.playMediaAt(candidate, position);
+        });
+
+        const dismissBtn = banner.createDiv({ cls: 'cross-player-handoff-dismiss clickable-icon', attr: { 'aria-label': 'Dismiss' } });
+        setIcon(dismissBtn, 'x');
+        dismissBtn.addEventListener('click', (event) => {
+            event.stopPropagation();
+            this.dismissedHandoffKey = handoffKey;
+            this.hideHandoffBanner();
+        });
+    }
+
+    hideHandoffBanner() {
+        this.handoffBannerEl?.remove();
+        this.handoffBannerEl = null;
+    }
+
     async onOpen() {
         this.plugin.mainView = this;
         const container = this.contentEl;
         container.empty();
+        this.handoffBannerEl = null;
         container.addClass("cross-player-main-view");
         // Make the view focusable so it can receive keyboard events
         container.tabIndex = 0;
@@ -3195,6 +7126,9 @@ class CrossPlayerMainView extends ItemView {
         this.videoEl = this.videoWrapperEl.createEl("video");
         this.videoEl.controls = !this.shouldUseTouchOverlay();
         this.videoEl.addClass('cross-player-media-element');
+        this.applySubtitleStyle();
+        // Cues only exist once a track is enabled, so re-apply offsets whenever the active track changes.
+        this.videoEl.textTracks.addEventListener('change', () => this.applySubtitleAdjustments());
 
         this.registerDomEvent(activeDocument, 'fullscreenchange', () => {
             window.setTimeout(() => {
@@ -3210,6 +7144,7 @@ class CrossPlayerMainView extends ItemView {
 
         this.videoEl.onended = async () => {
             if (this.currentItem && this.isCurrentPlaybackSource()) {
+                this.stopSkippingSilence();
                 await this.persistCurrentPlaybackPosition(true);
                 await this.syncCompletionStatusFromPlayback();
 
@@ -3218,8 +7153,16 @@ class CrossPlayerMainView extends ItemView {
                     await this.plugin.updateStatus(this.currentItem.id, 'completed');
                 }
 
-                // Check autoplay regardless of whether it was already marked completed
-                if (this.plugin.data.settings.autoplayNext) {
+                const silenceSkipped = this.plugin.data.queue.find(i => i.id === this.currentItem?.id)?.silenceSkippedSeconds;
+                if (this.plugin.data.settings.skipSilence && silenceSkipped && silenceSkipped >= 1) {
+                    new Notice(`Skip silence saved ${this.plugin.formatDuration(silenceSkipped)} on this item.`);
+                }
+
+                // The sleep timer ends with this item, so don't roll over into the next one.
+                if (this.sleepAtEndOfItem) {
+                    this.cancelSleepTimer(false);
+                    new Notice("Sleep timer: playback stopped at the end of the item.");
+                } else if (this.plugin.data.settings.autoplayNext) {
                     void this.plugin.playNextUnread();
                 }
             }
@@ -3229,6 +7172,9 @@ class CrossPlayerMainView extends ItemView {
 
         this.videoEl.ontimeupdate = async () => {
             if (this.currentItem && this.isCurrentPlaybackSource()) {
+                this.enforceLoop();
+                this.checkSleepAtEndOfItem();
+
                 // Throttled ETC update in List View
                 const now = Date.now();
                 // Update every 5 seconds (5000ms) to reflect progress in ETC without spamming updates
@@ -3254,6 +7200,7 @@ class CrossPlayerMainView extends ItemView {
                 }
 
                 this.updateOverlayProgress();
+                this.plugin.transcriptView?.updateActiveCue(this.videoEl.currentTime);
 
                 // Mark as completed if > 95% watched
                 await this.syncCompletionStatusFromPlayback();
@@ -3261,15 +7208,26 @@ class CrossPlayerMainView extends ItemView {
         };
 
         this.videoEl.onpause = async () => {
+            this.updateSkipSilenceMonitor();
             if (this.currentItem && this.isCurrentPlaybackSource()) {
                 await this.persistCurrentPlaybackPosition(true);
             }
             void this.plugin.flushDeferredMetadataHydration();
             this.updateOverlayProgress();
         };
+
+        this.videoEl.onplay = () => {
+            this.updateSkipSilenceMonitor();
+        };
     }
 
     async onClose() {
+        this.cancelSleepTimer(false);
+        if (this.skipSilenceInterval !== null) {
+            window.clearInterval(this.skipSilenceInterval);
+            this.skipSilenceInterval = null;
+        }
+        this.stopSkippingSilence();
         if (this.videoEl) {
             this.videoEl.pause();
             await this.persistPlaybackSnapshotOnClose();
@@ -3280,6 +7238,7 @@ class CrossPlayerMainView extends ItemView {
         this.activeMediaSrc = null;
         this.currentItem = null;
         this.lastPositionPersist = 0;
+        this.releaseSubtitleObjectUrls();
         if (this.plugin.mainView === this) {
             this.plugin.mainView = null;
         }
@@ -3464,14 +7423,190 @@ class CrossPlayerMainView extends ItemView {
             type: 'range',
             cls: 'cross-player-overlay-progress'
         });
+        this.overlayChapterMarkersEl = progressBarShell.createDiv({ cls: 'cross-player-chapter-markers' });
         progressBar.min = '0';
         progressBar.max = '1000';
         progressBar.step = '1';
         progressBar.value = '0';
         this.overlayProgressEl = progressBar;
 
-        const durationEl = progressWrap.createSpan({ text: "0:00", cls: 'cross-player-overlay-time cross-player-overlay-time-duration' });
-        this.overlayDurationEl = durationEl;
+        const durationEl = progressWrap.createSpan({ text: "0:00", cls: 'cross-player-overlay-time cross-player-overlay-time-duration' });
+        this.overlayDurationEl = durationEl;
+
+        const progressSubtitleBtn = progressWrap.createDiv({ cls: 'cross-player-big-btn' });
+        progressSubtitleBtn.addClass('cross-player-overlay-mini-btn');
+        setIcon(progressSubtitleBtn, "subtitles");
+        this.styleBigButton(progressSubtitleBtn);
+        progressSubtitleBtn.onclick = (e) => {
+            if (shouldSuppressControlAction(e)) return;
+            e.stopPropagation();
+
+            const menu = new Menu();
+            menu.addItem(item => item
+                .setTitle(`Subtitles Earlier (-${SUBTITLE_OFFSET_STEP}s)`)
+                .setIcon("chevrons-left")
+                .onClick(() => this.shiftSubtitleOffset(-SUBTITLE_OFFSET_STEP)));
+            menu.addItem(item => item
+                .setTitle(`Subtitles Later (+${SUBTITLE_OFFSET_STEP}s)`)
+                .setIcon("chevrons-right")
+                .onClick(() => this.shiftSubtitleOffset(SUBTITLE_OFFSET_STEP)));
+            menu.addItem(item => item
+                .setTitle(`Reset Offset (${this.formatSubtitleOffset(this.getSubtitleOffset())})`)
+                .setIcon("rotate-ccw")
+                .onClick(() => this.resetSubtitleOffset()));
+            menu.addSeparator();
+            menu.addItem(item => item
+                .setTitle("Toggle Subtitles")
+                .setIcon("eye-off")
+                .onClick(() => this.toggleSubtitles()));
+            menu.addItem(item => item
+                .setTitle("Switch Subtitle Track")
+                .setIcon("languages")
+                .onClick(() => this.switchSubtitleTrack()));
+            menu.showAtMouseEvent(e);
+            showOverlay();
+        };
+
+        const progressLoopBtn = progressWrap.createDiv({ cls: 'cross-player-big-btn' });
+        progressLoopBtn.addClass('cross-player-overlay-mini-btn');
+        setIcon(progressLoopBtn, "repeat");
+        this.styleBigButton(progressLoopBtn);
+        progressLoopBtn.onclick = (e) => {
+            if (shouldSuppressControlAction(e)) return;
+            e.stopPropagation();
+
+            const menu = new Menu();
+            menu.addItem(item => item
+                .setTitle("Set Point A")
+                .setIcon("flag")
+                .onClick(() => this.setLoopStart()));
+            menu.addItem(item => item
+                .setTitle("Set Point B")
+                .setIcon("flag-triangle-right")
+                .onClick(() => this.setLoopEnd()));
+            if (this.hasActiveLoop()) {
+                menu.addItem(item => item
+                    .setTitle("Save Loop")
+                    .setIcon("save")
+                    .onClick(() => this.saveCurrentLoop()));
+            }
+            if (this.loopStart !== null || this.loopEnd !== null) {
+                menu.addItem(item => item
+                    .setTitle("Clear Loop")
+                    .setIcon("x")
+                    .onClick(() => this.clearLoop()));
+            }
+            const savedLoops = this.currentItem?.loops ?? [];
+            if (savedLoops.length > 0) {
+                menu.addSeparator();
+                savedLoops.forEach(loop => {
+                    menu.addItem(item => item
+                        .setTitle(this.plugin.formatLoop(loop))
+                        .setIcon("repeat")
+                        .onClick(() => this.activateLoop(loop.start, loop.end)));
+                });
+            }
+            menu.showAtMouseEvent(e);
+            showOverlay();
+        };
+
+        const progressChapterBtn = progressWrap.createDiv({ cls: 'cross-player-big-btn' });
+        progressChapterBtn.addClass('cross-player-overlay-mini-btn');
+        setIcon(progressChapterBtn, "list");
+        this.styleBigButton(progressChapterBtn);
+        progressChapterBtn.onclick = (e) => {
+            if (shouldSuppressControlAction(e)) return;
+            e.stopPropagation();
+
+            const chapters = this.currentItem?.chapters ?? [];
+            if (chapters.length === 0) {
+                new Notice("No chapters found for this media.");
+                showOverlay();
+                return;
+            }
+
+            const menu = new Menu();
+            const currentIndex = this.getCurrentChapterIndex();
+            chapters.forEach((chapter, index) => {
+                menu.addItem(item => item
+                    .setTitle(`${this.formatPlaybackTime(chapter.start)} ${chapter.title}`)
+                    .setChecked(index === currentIndex)
+                    .onClick(() => this.seekTo(chapter.start)));
+            });
+            menu.showAtMouseEvent(e);
+            showOverlay();
+        };
+
+        const progressEqualizerBtn = progressWrap.createDiv({ cls: 'cross-player-big-btn' });
+        progressEqualizerBtn.addClass('cross-player-overlay-mini-btn');
+        setIcon(progressEqualizerBtn, "sliders-horizontal");
+        this.styleBigButton(progressEqualizerBtn);
+        progressEqualizerBtn.onclick = (e) => {
+            if (shouldSuppressControlAction(e)) return;
+            e.stopPropagation();
+
+            const currentItem = this.currentItem;
+            if (!currentItem) {
+                new Notice("Open a media file first.");
+                return;
+            }
+
+            const menu = new Menu();
+            const activePreset = this.plugin.getEqualizerPreset(currentItem);
+            for (const preset of Object.keys(EQUALIZER_PRESETS) as EqualizerPresetId[]) {
+                menu.addItem(item => item
+                    .setTitle(this.plugin.getEqualizerPresetLabel(preset))
+                    .setChecked(preset === activePreset)
+                    .onClick(() => this.plugin.setItemEqualizerPreset(currentItem, preset)));
+            }
+
+            const folder = this.plugin.app.vault.getAbstractFileByPath(currentItem.path)?.parent;
+            menu.addSeparator();
+            if (folder && !folder.isRoot()) {
+                menu.addItem(item => item
+                    .setTitle(`Use ${this.plugin.getEqualizerPresetLabel(activePreset)} for this folder`)
+                    .setIcon("folder")
+                    .onClick(() => this.plugin.setFolderEqualizerRule(folder.path, activePreset)));
+            }
+            if (this.plugin.getEqualizerPresetSource(currentItem) === 'item') {
+                menu.addItem(item => item
+                    .setTitle("Clear preset for this item")
+                    .setIcon("x")
+                    .onClick(() => this.plugin.setItemEqualizerPreset(currentItem, null)));
+            }
+            menu.showAtMouseEvent(e);
+            showOverlay();
+        };
+
+        const progressSleepBtn = progressWrap.createDiv({ cls: 'cross-player-big-btn' });
+        progressSleepBtn.addClass('cross-player-overlay-mini-btn');
+        setIcon(progressSleepBtn, "moon");
+        this.styleBigButton(progressSleepBtn);
+        progressSleepBtn.onclick = (e) => {
+            if (shouldSuppressControlAction(e)) return;
+            e.stopPropagation();
+
+            const menu = new Menu();
+            this.getSleepTimerChoices().forEach(choice => {
+                menu.addItem(item => item
+                    .setTitle(choice.label)
+                    .setIcon(choice.cancel ? "x" : "timer")
+                    .onClick(() => this.applySleepTimerChoice(choice)));
+            });
+            menu.showAtMouseEvent(e);
+            showOverlay();
+        };
+
+        const progressBookmarkBtn = progressWrap.createDiv({ cls: 'cross-player-big-btn' });
+        progressBookmarkBtn.addClass('cross-player-overlay-mini-btn');
+        setIcon(progressBookmarkBtn, "bookmark-plus");
+        this.styleBigButton(progressBookmarkBtn);
+        progressBookmarkBtn.onclick = (e) => {
+            if (shouldSuppressControlAction(e)) return;
+            e.stopPropagation();
+            this.plugin.addBookmarkAtCurrentTime();
+            showOverlay();
+        };
 
         const progressFullscreenBtn = progressWrap.createDiv({ cls: 'cross-player-big-btn' });
         progressFullscreenBtn.addClass('cross-player-overlay-mini-btn');
@@ -3620,6 +7755,7 @@ class CrossPlayerMainView extends ItemView {
             showOverlay();
         };
 
+        this.renderChapterMarkers();
         showOverlay();
     }
 
@@ -3663,26 +7799,32 @@ class CrossPlayerMainView extends ItemView {
         const isDarkTheme = activeDocument.body.classList.contains('theme-dark');
         const fillColor = "var(--interactive-accent)";
         const trackColor = isDarkTheme ? "rgba(255, 255, 255, 0.22)" : "rgba(0, 0, 0, 0.10)";
+        const progressBackground = `linear-gradient(to right, ${fillColor} 0%, ${fillColor} ${percent}%, ${trackColor} ${percent}%, ${trackColor} 100%)`;
 
         this.overlayProgressEl.setCssProps({
-            '--cross-player-progress-background': `linear-gradient(to right, ${fillColor} 0%, ${fillColor} ${percent}%, ${trackColor} ${percent}%, ${trackColor} 100%)`,
+            '--cross-player-progress-background': [this.getLoopTrackBackground(), progressBackground].filter(Boolean).join(', '),
             '--cross-player-progress-shadow': isDarkTheme ? "0 0 0 1px rgba(255, 255, 255, 0.05) inset" : "none"
         });
     }
 
     formatPlaybackTime(seconds: number): string {
-        if (!isFinite(seconds) || seconds < 0) return "0:00";
-
-        const totalSeconds = Math.floor(seconds);
-        const hours = Math.floor(totalSeconds / 3600);
-        const minutes = Math.floor((totalSeconds % 3600) / 60);
-        const secs = totalSeconds % 60;
+        return this.plugin.formatPlaybackTime(seconds);
+    }
 
-        if (hours > 0) {
-            return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    getLoopTrackBackground(): string {
+        if (this.loopStart === null || !this.videoEl || !isFinite(this.videoEl.duration) || this.videoEl.duration <= 0) {
+            return '';
         }
 
-        return `${minutes}:${secs.toString().padStart(2, '0')}`;
+        // Layered above the progress gradient: a translucent band between A and B (or a thin marker when only A is set).
+        const duration = this.videoEl.duration;
+        const startPercent = Math.min(100, Math.max(0, (this.loopStart / duration) * 100));
+        const endPercent = this.loopEnd !== null
+            ? Math.min(100, Math.max(startPercent, (this.loopEnd / duration) * 100))
+            : Math.min(100, startPercent + 0.6);
+        const loopColor = "hsla(var(--accent-h), var(--accent-s), var(--accent-l), 0.45)";
+
+        return `linear-gradient(to right, transparent ${startPercent.toFixed(2)}%, ${loopColor} ${startPercent.toFixed(2)}%, ${loopColor} ${endPercent.toFixed(2)}%, transparent ${endPercent.toFixed(2)}%)`;
     }
 
     ensureAudioNodes() {
@@ -3705,9 +7847,29 @@ class CrossPlayerMainView extends ItemView {
             this.compressorNode.attack.value = 0.003;
             this.compressorNode.release.value = 0.25;
 
+            this.equalizerNodes = EQUALIZER_BANDS.map(band => {
+                const filter = this.audioContext.createBiquadFilter();
+                filter.type = band.type;
+                filter.frequency.value = band.frequency;
+                filter.Q.value = 1;
+                filter.gain.value = 0;
+                return filter;
+            });
+
+            // source -> gain -> equalizer bands -> compressor -> output
             this.mediaSourceNode.connect(this.gainNode);
-            this.gainNode.connect(this.compressorNode);
+            let previousNode: AudioNode = this.gainNode;
+            for (const filter of this.equalizerNodes) {
+                previousNode.connect(filter);
+                previousNode = filter;
+            }
+            previousNode.connect(this.compressorNode);
             this.compressorNode.connect(this.audioContext.destination);
+
+            // Tapped before the gain so volume boost doesn't change what counts as silence.
+            this.analyserNode = this.audioContext.createAnalyser();
+            this.analyserNode.fftSize = 2048;
+            this.mediaSourceNode.connect(this.analyserNode);
         }
     }
 
@@ -3717,7 +7879,16 @@ class CrossPlayerMainView extends ItemView {
             if (!this.gainNode || !this.compressorNode) return;
 
             const boost = Math.max(100, this.plugin.data.settings.volumeBoostPercent || 100);
-            this.gainNode.gain.value = boost / 100;
+            const loudnessGain = Math.pow(10, this.plugin.getLoudnessGainDb(this.currentItem) / 20);
+            // Leave the gain alone while the sleep timer ramps it down; restoreGainAfterFade re-applies it.
+            if (!this.isSleepFading) {
+                this.gainNode.gain.value = (boost / 100) * loudnessGain;
+            }
+
+            const equalizerGains = this.plugin.getEqualizerGains(this.plugin.getEqualizerPreset(this.currentItem));
+            this.equalizerNodes.forEach((filter, index) => {
+                filter.gain.value = equalizerGains[index] ?? 0;
+            });
 
             if (this.plugin.data.settings.soundNormalization) {
                 this.compressorNode.threshold.value = -24;
@@ -3730,11 +7901,101 @@ class CrossPlayerMainView extends ItemView {
             if (this.audioContext && this.audioContext.state === 'suspended') {
                 this.audioContext.resume().catch(() => {});
             }
+
+            this.updateSkipSilenceMonitor();
         } catch (error) {
             console.error('Failed to apply audio settings', error);
         }
     }
 
+    updateSkipSilenceMonitor() {
+        const shouldMonitor = this.plugin.data.settings.skipSilence && !!this.analyserNode && !!this.videoEl && !this.videoEl.paused;
+        if (shouldMonitor && this.skipSilenceInterval === null) {
+            this.skipSilenceInterval = window.setInterval(() => this.checkForSilence(), SKIP_SILENCE_CHECK_INTERVAL_MS);
+        } else if (!shouldMonitor && this.skipSilenceInterval !== null) {
+            window.clearInterval(this.skipSilenceInterval);
+            this.skipSilenceInterval = null;
+            this.stopSkippingSilence();
+        }
+    }
+
+    checkForSilence() {
+        if (!this.analyserNode || !this.currentItem || !this.isCurrentPlaybackSource() || this.videoEl.paused || this.isSleepFading) return;
+
+        if (!this.silenceSamples || this.silenceSamples.length !== this.analyserNode.fftSize) {
+            this.silenceSamples = new Float32Array(this.analyserNode.fftSize);
+        }
+        this.analyserNode.getFloatTimeDomainData(this.silenceSamples);
+
+        let sumOfSquares = 0;
+        for (let i = 0; i < this.silenceSamples.length; i++) {
+            sumOfSquares += this.silenceSamples[i] * this.silenceSamples[i];
+        }
+        const rms = Math.sqrt(sumOfSquares / this.silenceSamples.length);
+        const levelDb = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+        const isQuiet = levelDb < this.plugin.data.settings.skipSilenceThresholdDb;
+        const currentTime = this.videoEl.currentTime;
+
+        if (this.isSkippingSilence) {
+            this.accumulateSilenceSaved(currentTime);
+            if (!isQuiet) {
+                this.stopSkippingSilence();
+            }
+            return;
+        }
+
+        if (!isQuiet) {
+            this.silenceStartedAt = null;
+            return;
+        }
+
+        if (this.silenceStartedAt === null || currentTime < this.silenceStartedAt) {
+            this.silenceStartedAt = currentTime;
+            return;
+        }
+
+        // Short pauses between sentences keep their rhythm; only sustained dead air is sped through.
+        if (currentTime - this.silenceStartedAt >= SKIP_SILENCE_MIN_SECONDS) {
+            this.isSkippingSilence = true;
+            this.skipSilenceNormalRate = this.videoEl.playbackRate;
+            this.lastSilenceCheckTime = currentTime;
+            this.videoEl.playbackRate = Math.max(this.skipSilenceNormalRate, SKIP_SILENCE_PLAYBACK_RATE);
+        }
+    }
+
+    accumulateSilenceSaved(currentTime: number) {
+        const advanced = currentTime - (this.lastSilenceCheckTime ?? currentTime);
+        this.lastSilenceCheckTime = currentTime;
+        // Seeks while skipping aren't time saved by skip silence.
+        if (advanced <= 0 || advanced > 5) return;
+
+        const skipRate = this.videoEl.playbackRate;
+        if (skipRate <= this.skipSilenceNormalRate) return;
+        this.pendingSilenceSavedSeconds += advanced / this.skipSilenceNormalRate - advanced / skipRate;
+    }
+
+    stopSkippingSilence() {
+        if (this.isSkippingSilence) {
+            this.isSkippingSilence = false;
+            if (this.videoEl) {
+                this.videoEl.playbackRate = this.skipSilenceNormalRate;
+            }
+        }
+        this.silenceStartedAt = null;
+        this.lastSilenceCheckTime = null;
+
+        const saved = this.pendingSilenceSavedSeconds;
+        this.pendingSilenceSavedSeconds = 0;
+        if (saved > 0 && this.currentItem) {
+            this.plugin.recordSilenceSkipped(this.currentItem, saved);
+        }
+    }
+
+    getNormalPlaybackRate(): number {
+        if (!this.videoEl) return 0;
+        return this.isSkippingSilence ? this.skipSilenceNormalRate : this.videoEl.playbackRate;
+    }
+
     styleBigButton(btn: HTMLElement) {
         btn.addClass("cross-player-overlay-btn");
     }
@@ -3812,17 +8073,21 @@ class CrossPlayerMainView extends ItemView {
         this.currentItem = null;
         this.activeMediaSrc = null;
         this.lastPositionPersist = 0;
+        this.loopStart = null;
+        this.loopEnd = null;
 
         if (this.videoEl) {
             this.videoEl.pause();
             this.videoEl.removeAttribute('src');
             this.videoEl.load();
         }
+        this.releaseSubtitleObjectUrls();
 
         this.setViewTitle("Cross Player");
         this.showIdlePlaceholder();
         this.refreshMobileOverlay();
         this.updateOverlayProgress();
+        this.plugin.transcriptView?.refresh();
     }
 
     async stop() {
@@ -3845,6 +8110,7 @@ class CrossPlayerMainView extends ItemView {
     }
 
     async play(item: MediaItem, autoPlay: boolean = false): Promise<boolean> {
+        this.stopSkippingSilence();
         this.currentItem = item;
 
         // Update view title
@@ -3863,33 +8129,40 @@ class CrossPlayerMainView extends ItemView {
         while (this.videoEl.firstChild) {
             this.videoEl.removeChild(this.videoEl.firstChild);
         }
+        this.releaseSubtitleObjectUrls();
 
-        const baseName = item.path.substring(0, item.path.lastIndexOf('.'));
-        const subtitleExtensions = ['vtt', 'srt'];
-        let sidecarFound = false;
-
-        for (const subExt of subtitleExtensions) {
-            const subPath = `${baseName}.${subExt}`;
-            const subFile = this.plugin.app.vault.getAbstractFileByPath(subPath);
-            if (subFile instanceof TFile) {
-                this.videoEl.createEl("track", {
-                    attr: {
-                        kind: "subtitles",
-                        label: subExt.toUpperCase(),
-                        srclang: "en",
-                        src: this.plugin.app.vault.getResourcePath(subFile),
-                        default: "true"
-                    }
-                });
-                sidecarFound = true;
-                break; // Use the first one found
+        const loadedSidecars: { sidecar: SidecarSubtitle; src: string }[] = [];
+        for (const sidecar of this.findSidecarSubtitles(item)) {
+            const trackSrc = await this.getSubtitleTrackSource(sidecar.file);
+            if (trackSrc) {
+                loadedSidecars.push({ sidecar, src: trackSrc });
             }
         }
 
+        const preferredLanguages = parsePreferredLanguages(this.plugin.data.settings.preferredSubtitleLanguages);
+        const defaultTrackIndex = pickPreferredSubtitleIndex(loadedSidecars.map(({ sidecar }) => sidecar.info), preferredLanguages);
+        loadedSidecars.forEach(({ sidecar, src }, index) => {
+            const attr: Record<string, string> = {
+                kind: "subtitles",
+                label: formatSubtitleLabel(sidecar.info),
+                src
+            };
+            if (sidecar.info.language) {
+                attr.srclang = sidecar.info.language;
+            }
+            if (index === defaultTrackIndex) {
+                attr.default = "true";
+            }
+            const trackEl = this.videoEl.createEl("track", { attr });
+            trackEl.addEventListener('load', () => this.applySubtitleAdjustments());
+        });
+        const sidecarFound = loadedSidecars.length > 0;
+
         // Setup listeners BEFORE setting src
         this.videoEl.onloadedmetadata = () => {
             void this.syncCurrentItemDuration();
             this.updateOverlayProgress();
+            this.renderChapterMarkers();
             // Logic for embedded subtitles: 
             // If no sidecar was found, we try to enable the first available embedded track.
             if (!sidecarFound && this.videoEl && this.videoEl.textTracks && this.videoEl.textTracks.length > 0) {
@@ -3901,6 +8174,8 @@ class CrossPlayerMainView extends ItemView {
                     }
                 }
             }
+            this.prepareTranscriptTrack();
+            this.plugin.transcriptView?.refresh();
         };
         this.videoEl.ondurationchange = () => {
             void this.syncCurrentItemDuration();
@@ -3929,9 +8204,13 @@ class CrossPlayerMainView extends ItemView {
         // Context Rewind: go back 2 seconds to provide context and counter any transition-related "advance"
         const resumePosition = item.position > 2 ? item.position - 2 : item.position;
         this.videoEl.currentTime = resumePosition || 0;
-        this.videoEl.playbackRate = this.plugin.data.playbackSpeed || 1.0;
+        this.videoEl.playbackRate = this.plugin.getPlaybackSpeed(item);
+        this.plugin.listView?.updateSpeedDisplay();
         this.lastPositionPersist = 0;
         this.applyAudioSettings();
+        if (this.plugin.data.settings.loudnessNormalization && this.plugin.needsLoudnessAnalysis(item)) {
+            void this.plugin.analyzeLoudness(item);
+        }
 
         // Handle Audio vs Video UI
         const ext = item.path.split('.').pop()?.toLowerCase();
@@ -3963,18 +8242,379 @@ class CrossPlayerMainView extends ItemView {
         // Update overlay visibility based on new item type
         this.refreshMobileOverlay();
         this.updateOverlayProgress();
+        void this.refreshChapters();
 
         return true;
     }
 
+    findSidecarSubtitles(item: MediaItem): SidecarSubtitle[] {
+        const mediaFile = this.plugin.app.vault.getAbstractFileByPath(item.path);
+        if (!(mediaFile instanceof TFile) || !mediaFile.parent) return [];
+
+        const sidecars: SidecarSubtitle[] = [];
+        for (const child of mediaFile.parent.children) {
+            if (!(child instanceof TFile) || child === mediaFile) continue;
+
+            const info = parseSidecarSubtitleName(mediaFile.basename, child.name);
+            if (info) {
+                sidecars.push({ file: child, info });
+            }
+        }
+
+        // Untagged sidecars first (the historic single-file behaviour), then by language and name.
+        return sidecars.sort((a, b) => {
+            if (!a.info.language !== !b.info.language) return a.info.language ? 1 : -1;
+            return a.file.name.localeCompare(b.file.name);
+        });
+    }
+
+    async getSubtitleTrackSource(file: TFile): Promise<string | null> {
+        if (file.extension.toLowerCase() !== 'srt') {
+            return this.plugin.app.vault.getResourcePath(file);
+        }
+
+        // Browsers only render WebVTT, so SRT sidecars are converted in memory and served as a Blob URL.
+        try {
+            const srtText = await this.plugin.app.vault.adapter.read(file.path);
+            const blob = new Blob([convertSrtToVtt(srtText)], { type: 'text/vtt' });
+            const objectUrl = URL.createObjectURL(blob);
+            this.subtitleObjectUrls.push(objectUrl);
+            return objectUrl;
+        } catch (error) {
+            console.warn('[Cross Player] Failed to convert SRT subtitles', file.path, error);
+            return null;
+        }
+    }
+
+    isSleepTimerActive(): boolean {
+        return this.sleepTimerTimeout !== null || this.sleepAtEndOfItem || this.isSleepFading;
+    }
+
+    getSleepTimerChoices(): SleepTimerChoice[] {
+        if (!this.isSleepTimerActive()) return SLEEP_TIMER_CHOICES;
+
+        let label = 'Cancel sleep timer';
+        if (this.sleepAtEndOfItem) {
+            label += ' (end of item)';
+        } else if (this.sleepTimerEndsAt !== null) {
+            const minutesLeft = Math.max(1, Math.ceil((this.sleepTimerEndsAt - Date.now()) / 60000));
+            label += ` (${minutesLeft} min left)`;
+        }
+        return [{ label, minutes: null, cancel: true }, ...SLEEP_TIMER_CHOICES];
+    }
+
+    applySleepTimerChoice(choice: SleepTimerChoice) {
+        if (choice.cancel) {
+            this.cancelSleepTimer();
+            return;
+        }
+
+        this.cancelSleepTimer(false);
+        if (choice.minutes === null) {
+            this.sleepAtEndOfItem = true;
+            new Notice("Sleep timer: pausing at the end of the current item.");
+            return;
+        }
+
+        const durationMs = choice.minutes * 60000;
+        this.sleepTimerEndsAt = Date.now() + durationMs;
+        // Start fading early so playback reaches silence exactly when the timer runs out.
+        this.sleepTimerTimeout = window.setTimeout(() => {
+            this.sleepTimerTimeout = null;
+            void this.fadeOutAndPause();
+        }, Math.max(0, durationMs - SLEEP_FADE_SECONDS * 1000));
+        new Notice(`Sleep timer: pausing in ${choice.minutes} minutes.`);
+    }
+
+    cancelSleepTimer(notify: boolean = true) {
+        const wasActive = this.isSleepTimerActive();
+
+        if (this.sleepTimerTimeout !== null) {
+            window.clearTimeout(this.sleepTimerTimeout);
+            this.sleepTimerTimeout = null;
+        }
+        this.sleepTimerEndsAt = null;
+        this.sleepAtEndOfItem = false;
+        if (this.isSleepFading) {
+            this.isSleepFading = false;
+            this.restoreGainAfterFade();
+        }
+
+        if (notify && wasActive) {
+            new Notice("Sleep timer cancelled.");
+        }
+    }
+
+    checkSleepAtEndOfItem() {
+        if (!this.sleepAtEndOfItem || this.isSleepFading || !isFinite(this.videoEl.duration) || this.videoEl.duration <= 0) return;
+
+        // Remaining media time is consumed faster at higher speeds, so scale the fade window by the playback rate.
+        const remaining = this.videoEl.duration - this.videoEl.currentTime;
+        if (remaining <= SLEEP_FADE_SECONDS * (this.videoEl.playbackRate || 1)) {
+            void this.fadeOutAndPause();
+        }
+    }
+
+    async fadeOutAndPause() {
+        if (this.isSleepFading || !this.videoEl) return;
+        this.isSleepFading = true;
+
+        this.ensureAudioNodes();
+        if (this.gainNode && this.audioContext) {
+            const gain = this.gainNode.gain;
+            const now = this.audioContext.currentTime;
+            gain.cancelScheduledValues(now);
+            gain.setValueAtTime(gain.value, now);
+            gain.linearRampToValueAtTime(0, now + SLEEP_FADE_SECONDS);
+        }
+
+        await new Promise<void>(resolve => window.setTimeout(resolve, SLEEP_FADE_SECONDS * 1000));
+
+        // The timer may have been cancelled while fading.
+        if (!this.isSleepFading) return;
+
+        this.videoEl.pause();
+        await this.persistCurrentPlaybackPosition(true);
+        this.isSleepFading = false;
+        this.sleepTimerEndsAt = null;
+        this.sleepAtEndOfItem = false;
+        this.restoreGainAfterFade();
+        new Notice("Sleep timer: playback paused.");
+    }
+
+    restoreGainAfterFade() {
+        if (this.gainNode && this.audioContext) {
+            this.gainNode.gain.cancelScheduledValues(this.audioContext.currentTime);
+        }
+        this.applyAudioSettings();
+    }
+
+    hasActiveLoop(): boolean {
+        return this.loopStart !== null && this.loopEnd !== null && this.loopEnd > this.loopStart;
+    }
+
+    enforceLoop() {
+        if (!this.hasActiveLoop() || this.loopStart === null || this.loopEnd === null) return;
+
+        if (this.videoEl.currentTime >= this.loopEnd) {
+            this.videoEl.currentTime = this.loopStart;
+        }
+    }
+
+    setLoopStart() {
+        if (!this.currentItem || !this.isCurrentPlaybackSource()) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        this.loopStart = this.videoEl.currentTime;
+        if (this.loopEnd !== null && this.loopEnd <= this.loopStart) {
+            this.loopEnd = null;
+        }
+        this.updateOverlayProgress();
+        new Notice(`Loop point A: ${this.formatPlaybackTime(this.loopStart)}`);
+    }
+
+    setLoopEnd() {
+        if (!this.currentItem || !this.isCurrentPlaybackSource()) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        const loopEnd = this.videoEl.currentTime;
+        const loopStart = this.loopStart ?? 0;
+        if (loopEnd <= loopStart) {
+            new Notice("Point B must be after point A.");
+            return;
+        }
+
+        this.loopStart = loopStart;
+        this.loopEnd = loopEnd;
+        this.videoEl.currentTime = loopStart;
+        this.updateOverlayProgress();
+        new Notice(`Looping ${this.plugin.formatLoop({ start: loopStart, end: loopEnd })}`);
+    }
+
+    activateLoop(start: number, end: number) {
+        if (!this.currentItem || !this.isCurrentPlaybackSource()) return;
+
+        this.loopStart = start;
+        this.loopEnd = end;
+        this.seekTo(start);
+        if (this.videoEl.paused) {
+            void this.videoEl.play();
+        }
+        new Notice(`Looping ${this.plugin.formatLoop({ start, end })}`);
+    }
+
+    clearLoop() {
+        if (this.loopStart === null && this.loopEnd === null) return;
+
+        this.loopStart = null;
+        this.loopEnd = null;
+        this.updateOverlayProgress();
+        new Notice("A-B loop cleared");
+    }
+
+    async saveCurrentLoop() {
+        if (!this.currentItem || !this.hasActiveLoop() || this.loopStart === null || this.loopEnd === null) {
+            new Notice("Set points A and B first.");
+            return;
+        }
+
+        await this.plugin.saveLoop(this.currentItem, this.loopStart, this.loopEnd);
+    }
+
+    getSubtitleOffset(): number {
+        return this.currentItem?.subtitleOffset ?? 0;
+    }
+
+    formatSubtitleOffset(offset: number): string {
+        return `${offset > 0 ? '+' : ''}${offset.toFixed(1)}s`;
+    }
+
+    async shiftSubtitleOffset(delta: number) {
+        if (!this.currentItem) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        // Round to the step so repeated presses don't accumulate floating point drift.
+        const nextOffset = Math.round((this.getSubtitleOffset() + delta) / SUBTITLE_OFFSET_STEP) * SUBTITLE_OFFSET_STEP;
+        await this.plugin.setSubtitleOffset(this.currentItem, Number(nextOffset.toFixed(1)));
+        this.applySubtitleAdjustments();
+        new Notice(`Subtitle offset: ${this.formatSubtitleOffset(this.getSubtitleOffset())}`);
+    }
+
+    async resetSubtitleOffset() {
+        if (!this.currentItem) {
+            new Notice("Open a media file first.");
+            return;
+        }
+
+        await this.plugin.setSubtitleOffset(this.currentItem, 0);
+        this.applySubtitleAdjustments();
+        new Notice("Subtitle offset reset");
+    }
+
+    applySubtitleStyle() {
+        const { subtitleFontSizePercent, subtitleBackgroundOpacity } = this.plugin.data.settings;
+        this.contentEl.setCssProps({
+            '--cross-player-cue-font-size': `${subtitleFontSizePercent || 100}%`,
+            '--cross-player-cue-background': `rgba(0, 0, 0, ${Math.min(100, Math.max(0, subtitleBackgroundOpacity)) / 100})`
+        });
+        this.applySubtitleAdjustments();
+    }
+
+    applySubtitleAdjustments() {
+        if (!this.videoEl || !this.videoEl.textTracks) return;
+
+        const offset = this.getSubtitleOffset();
+        const verticalPosition = this.plugin.data.settings.subtitleVerticalPosition;
+        const tracks = this.videoEl.textTracks;
+
+        for (let i = 0; i < tracks.length; i++) {
+            const cues = tracks[i].cues;
+            if (tracks[i].mode === 'disabled' || !cues) continue;
+
+            for (let j = 0; j < cues.length; j++) {
+                const cue = cues[j];
+
+                // Always shift from the original timing so offsets never compound or get lost when clamped at zero.
+                let original = this.originalCueTimings.get(cue);
+                if (!original) {
+                    original = {
+                        startTime: cue.startTime,
+                        endTime: cue.endTime,
+                        line: cue instanceof VTTCue ? cue.line : 'auto',
+                        snapToLines: cue instanceof VTTCue ? cue.snapToLines : true
+                    };
+                    this.originalCueTimings.set(cue, original);
+                }
+
+                const startTime = Math.max(0, original.startTime + offset);
+                cue.startTime = startTime;
+                cue.endTime = Math.max(startTime, original.endTime + offset);
+
+                if (cue instanceof VTTCue) {
+                    if (verticalPosition > 0 && verticalPosition < 100) {
+                        cue.snapToLines = false;
+                        cue.line = verticalPosition;
+                    } else {
+                        cue.snapToLines = original.snapToLines;
+                        cue.line = original.line;
+                    }
+                }
+            }
+        }
+
+        this.plugin.transcriptView?.refresh();
+    }
+
+    getTranscriptTrack(): TextTrack | null {
+        if (!this.videoEl || !this.videoEl.textTracks) return null;
+
+        const subtitleTracks: TextTrack[] = [];
+        const tracks = this.videoEl.textTracks;
+        for (let i = 0; i < tracks.length; i++) {
+            if (tracks[i].kind === 'subtitles' || tracks[i].kind === 'captions') {
+                subtitleTracks.push(tracks[i]);
+            }
+        }
+
+        return subtitleTracks.find(track => track.mode === 'showing')
+            || subtitleTracks.find(track => track.mode === 'hidden')
+            || null;
+    }
+
+    prepareTranscriptTrack() {
+        if (!this.plugin.transcriptView || !this.videoEl || !this.videoEl.textTracks || this.getTranscriptTrack()) return;
+
+        // Hidden tracks still load their cues, so the transcript works while subtitles are switched off.
+        const tracks = this.videoEl.textTracks;
+        for (let i = 0; i < tracks.length; i++) {
+            if (tracks[i].kind === 'subtitles' || tracks[i].kind === 'captions') {
+                tracks[i].mode = 'hidden';
+                return;
+            }
+        }
+    }
+
+    getTranscriptCues(): TranscriptCue[] {
+        if (!this.currentItem) return [];
+
+        const cues = this.getTranscriptTrack()?.cues;
+        if (!cues) return [];
+
+        const transcript: TranscriptCue[] = [];
+        for (let i = 0; i < cues.length; i++) {
+            const cue = cues[i];
+            const rawText = cue instanceof VTTCue ? cue.text : '';
+            const text = rawText.replace(/<[^>]+>/g, '').replace(/\s*\n\s*/g, ' ').trim();
+            if (!text) continue;
+            transcript.push({ startTime: cue.startTime, endTime: cue.endTime, text });
+        }
+        return transcript;
+    }
+
+    releaseSubtitleObjectUrls() {
+        for (const objectUrl of this.subtitleObjectUrls) {
+            URL.revokeObjectURL(objectUrl);
+        }
+        this.subtitleObjectUrls = [];
+    }
+
     async changePlaybackSpeed(delta: number) {
         if (!this.videoEl) return;
-        const newSpeed = Math.max(0.1, this.videoEl.playbackRate + delta);
-        this.videoEl.playbackRate = newSpeed;
+        const newSpeed = Math.max(0.1, this.getNormalPlaybackRate() + delta);
+        if (this.isSkippingSilence) {
+            this.skipSilenceNormalRate = newSpeed;
+        } else {
+            this.videoEl.playbackRate = newSpeed;
+        }
 
         // Update persistent data
-        this.plugin.data.playbackSpeed = newSpeed;
-        await this.plugin.saveData(false);
+        await this.plugin.setPlaybackSpeed(this.currentItem, newSpeed);
 
         // No Notice, update UI in list view
         if (this.plugin.listView) {
@@ -3982,12 +8622,98 @@ class CrossPlayerMainView extends ItemView {
         }
     }
 
+    applyPlaybackSpeed() {
+        if (!this.videoEl || !this.currentItem) return;
+        this.videoEl.playbackRate = this.plugin.getPlaybackSpeed(this.currentItem);
+    }
+
     seek(seconds: number) {
         if (!this.videoEl) return;
         const newTime = Math.max(0, Math.min(this.videoEl.duration, this.videoEl.currentTime + seconds));
         this.videoEl.currentTime = newTime;
     }
 
+    seekTo(time: number) {
+        if (!this.videoEl) return;
+        const maxTime = isFinite(this.videoEl.duration) && this.videoEl.duration > 0 ? this.videoEl.duration : time;
+        this.videoEl.currentTime = Math.max(0, Math.min(maxTime, time));
+        this.updateOverlayProgress();
+    }
+
+    async refreshChapters(force: boolean = false) {
+        const item = this.currentItem;
+        if (!item) return;
+
+        const chapters = await this.plugin.loadChapters(item, force);
+        if (this.currentItem?.id !== item.id) return;
+
+        this.currentItem.chapters = chapters;
+        this.renderChapterMarkers();
+        if (force) {
+            new Notice(chapters.length > 0 ? `Found ${chapters.length} chapter(s).` : "No chapters found for this media.");
+        }
+    }
+
+    renderChapterMarkers() {
+        if (!this.overlayChapterMarkersEl) return;
+        this.overlayChapterMarkersEl.empty();
+
+        const chapters = this.currentItem?.chapters ?? [];
+        if (chapters.length === 0 || !this.videoEl || !isFinite(this.videoEl.duration) || this.videoEl.duration <= 0) return;
+
+        const duration = this.videoEl.duration;
+        for (const chapter of chapters) {
+            // The first chapter normally starts at 0, where a marker would only cover the track's rounded end.
+            if (chapter.start <= 0 || chapter.start >= duration) continue;
+            const marker = this.overlayChapterMarkersEl.createDiv({ cls: 'cross-player-chapter-marker' });
+            marker.setCssProps({ left: `${((chapter.start / duration) * 100).toFixed(2)}%` });
+            marker.setAttribute('aria-label', chapter.title);
+        }
+    }
+
+    getCurrentChapterIndex(): number {
+        const chapters = this.currentItem?.chapters ?? [];
+        if (!this.videoEl || chapters.length === 0) return -1;
+
+        const currentTime = this.videoEl.currentTime;
+        let index = -1;
+        for (let i = 0; i < chapters.length; i++) {
+            if (chapters[i].start <= currentTime + 0.25) index = i;
+        }
+        return index;
+    }
+
+    skipChapter(direction: number) {
+        const chapters = this.currentItem?.chapters ?? [];
+        if (!this.currentItem || !this.isCurrentPlaybackSource()) {
+            new Notice("Open a media file first.");
+            return;
+        }
+        if (chapters.length === 0) {
+            new Notice("No chapters found for this media.");
+            return;
+        }
+
+        const currentIndex = this.getCurrentChapterIndex();
+        let targetIndex = currentIndex + direction;
+        // Like a CD player: "previous" restarts the current chapter unless playback is right at its start.
+        if (direction < 0 && currentIndex >= 0 && this.videoEl.currentTime - chapters[currentIndex].start > CHAPTER_RESTART_THRESHOLD_SECONDS) {
+            targetIndex = currentIndex;
+        }
+
+        if (targetIndex < 0) {
+            this.seekTo(0);
+            return;
+        }
+        if (targetIndex >= chapters.length) {
+            new Notice("Already in the last chapter.");
+            return;
+        }
+
+        this.seekTo(chapters[targetIndex].start);
+        new Notice(chapters[targetIndex].title);
+    }
+
     toggleFullscreen() {
         if (!this.videoEl) return;
 
@@ -4022,6 +8748,7 @@ class CrossPlayerMainView extends ItemView {
             for (let i = 0; i < tracks.length; i++) {
                 tracks[i].mode = 'disabled';
             }
+            this.prepareTranscriptTrack();
             new Notice("Subtitles disabled");
         } else {
             // Enable the first available track
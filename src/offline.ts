@@ -0,0 +1,12 @@
+import { MediaItem } from './types';
+
+function isAtOrInside(itemPath: string, path: string): boolean {
+    return itemPath === path || itemPath.startsWith(path + '/');
+}
+
+// A device that keeps an offline subset loses the files it doesn't keep as a matter of course (its sync tool skips
+// them), so only deleting a kept file removes the item. The others stay queued and keep syncing their playback state.
+export function getItemsRemovedByDelete(queue: MediaItem[], deletedPath: string, keptItemIds: Set<string>): MediaItem[] {
+    const keepsSubset = keptItemIds.size > 0;
+    return queue.filter(item => isAtOrInside(item.path, deletedPath) && (!keepsSubset || keptItemIds.has(item.id)));
+}
@@ -0,0 +1,74 @@
+export interface PlaylistEntry {
+    id: string;
+    url: string;
+    title: string;
+    duration?: number; // seconds, when the extractor reports it
+    archiveKey?: string; // the line yt-dlp writes to --download-archive for this entry
+}
+
+export interface PlaylistListing {
+    title: string;
+    entries: PlaylistEntry[];
+}
+
+interface FlatPlaylistJson {
+    _type?: string;
+    id?: string;
+    title?: string;
+    url?: string;
+    webpage_url?: string;
+    ie_key?: string;
+    duration?: number;
+    entries?: FlatPlaylistJson[];
+}
+
+function toEntryUrl(entry: FlatPlaylistJson): string | null {
+    if (typeof entry.url === 'string' && /^https?:\/\//.test(entry.url)) return entry.url;
+    if (typeof entry.webpage_url === 'string') return entry.webpage_url;
+    // Flat YouTube entries sometimes carry only the video id. Other sites' ids don't make a link on their own.
+    if (typeof entry.id === 'string' && entry.ie_key === 'Youtube') {
+        return `https://www.youtube.com/watch?v=${entry.id}`;
+    }
+    return null;
+}
+
+// Parses the output of `yt-dlp --flat-playlist -J`. A plain video URL yields a single entry.
+export function parseFlatPlaylist(json: string): PlaylistListing {
+    const root = JSON.parse(json) as FlatPlaylistJson;
+    const entries: PlaylistEntry[] = [];
+    const seen = new Set<string>();
+
+    const visit = (node: FlatPlaylistJson) => {
+        // Channels list their tabs (Videos, Shorts, ...) as nested playlists.
+        if (Array.isArray(node.entries)) {
+            for (const child of node.entries) {
+                if (child) visit(child);
+            }
+            return;
+        }
+
+        const url = toEntryUrl(node);
+        if (!url || seen.has(url)) return;
+        seen.add(url);
+        entries.push({
+            id: node.id || url,
+            url,
+            title: node.title || url,
+            duration: typeof node.duration === 'number' && node.duration > 0 ? node.duration : undefined,
+            archiveKey: node.ie_key && node.id ? `${node.ie_key.toLowerCase()} ${node.id}` : undefined
+        });
+    };
+
+    visit(root);
+    return { title: root.title || 'Playlist', entries };
+}
+
+// Keeps the folder name valid on every platform the vault syncs to.
+export function toPlaylistFolderName(title: string): string {
+    const name = title
+        .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^\.+|\.+$/g, '');
+    return name.substring(0, 100).trim() || 'Playlist';
+}
@@ -0,0 +1,254 @@
+import { toPlaylistFolderName } from './playlists';
+import { EpisodeMetadata } from './types';
+
+export const EPISODE_SIDECAR_SUFFIX = '.episode.json';
+
+export interface PodcastEpisode {
+    guid: string;
+    title: string;
+    publishedAt?: string; // ISO date
+    duration?: number; // seconds, from itunes:duration
+    enclosureUrl: string;
+    enclosureType?: string;
+    enclosureLength?: number; // bytes, as announced by the feed
+    showNotes?: string; // HTML
+    link?: string;
+}
+
+export interface PodcastFeed {
+    title: string;
+    episodes: PodcastEpisode[]; // newest first
+}
+
+interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+            return isNaN(code) ? match : String.fromCodePoint(code);
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+// A small, forgiving XML reader: feeds in the wild are often not well-formed enough for a strict parser,
+// and keeping this free of DOM APIs lets it run against a local feed file under plain Node.
+function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    let index = 0;
+
+    while (index < xml.length) {
+        const tagStart = xml.indexOf('<', index);
+        const current = stack[stack.length - 1];
+        if (tagStart === -1) {
+            current.text += decodeEntities(xml.substring(index));
+            break;
+        }
+        if (tagStart > index) {
+            current.text += decodeEntities(xml.substring(index, tagStart));
+        }
+
+        if (xml.startsWith('<![CDATA[', tagStart)) {
+            const end = xml.indexOf(']]>', tagStart);
+            current.text += xml.substring(tagStart + 9, end === -1 ? xml.length : end);
+            index = end === -1 ? xml.length : end + 3;
+            continue;
+        }
+        if (xml.startsWith('<!--', tagStart)) {
+            const end = xml.indexOf('-->', tagStart);
+            index = end === -1 ? xml.length : end + 3;
+            continue;
+        }
+
+        const tagEnd = xml.indexOf('>', tagStart);
+        if (tagEnd === -1) break;
+        const tag = xml.substring(tagStart + 1, tagEnd);
+        index = tagEnd + 1;
+
+        if (tag.startsWith('?') || tag.startsWith('!')) continue;
+
+        if (tag.startsWith('/')) {
+            const name = tag.substring(1).trim();
+            // Close up to the matching element so a stray unclosed tag doesn't swallow the rest of the feed.
+            const matchIndex = stack.map(element => element.name).lastIndexOf(name);
+            if (matchIndex > 0) stack.length = matchIndex;
+            continue;
+        }
+
+        const selfClosing = tag.endsWith('/');
+        const body = selfClosing ? tag.substring(0, tag.length - 1) : tag;
+        const nameMatch = body.match(/^\s*([^\s/]+)/);
+        if (!nameMatch) continue;
+
+        const element: XmlElement = { name: nameMatch[1], attributes: {}, children: [], text: '' };
+        const attributeSource = body.substring(nameMatch[0].length);
+        const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+        let attribute: RegExpExecArray | null;
+        while ((attribute = attributePattern.exec(attributeSource)) !== null) {
+            element.attributes[attribute[1]] = decodeEntities(attribute[3] ?? attribute[4] ?? '');
+        }
+
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+    }
+
+    return root;
+}
+
+function findChild(element: XmlElement, ...names: string[]): XmlElement | undefined {
+    for (const name of names) {
+        const child = element.children.find(candidate => candidate.name === name);
+        if (child) return child;
+    }
+    return undefined;
+}
+
+function childText(element: XmlElement, ...names: string[]): string | undefined {
+    for (const name of names) {
+        const text = findChild(element, name)?.text.trim();
+        if (text) return text;
+    }
+    return undefined;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const timestamp = Date.parse(value);
+    return isNaN(timestamp) ? undefined : new Date(timestamp).toISOString();
+}
+
+function toPositiveNumber(value: string | undefined): number | undefined {
+    const number = value ? Number(value) : NaN;
+    return isFinite(number) && number > 0 ? number : undefined;
+}
+
+// itunes:duration is either plain seconds or [[hh:]mm:]ss.
+export function parseItunesDuration(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    const parts = value.trim().split(':').map(part => Number(part));
+    if (parts.length === 0 || parts.length > 3 || parts.some(part => !isFinite(part) || part < 0)) return undefined;
+
+    const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+    return seconds > 0 ? seconds : undefined;
+}
+
+function parseRssItem(item: XmlElement): PodcastEpisode | null {
+    const enclosure = findChild(item, 'enclosure', 'media:content');
+    const enclosureUrl = enclosure?.attributes.url?.trim();
+    if (!enclosure || !enclosureUrl) return null;
+
+    return {
+        guid: childText(item, 'guid') || enclosureUrl,
+        title: childText(item, 'title', 'itunes:title') || enclosureUrl,
+        publishedAt: toIsoDate(childText(item, 'pubDate', 'dc:date')),
+        duration: parseItunesDuration(childText(item, 'itunes:duration')),
+        enclosureUrl,
+        enclosureType: enclosure.attributes.type,
+        enclosureLength: toPositiveNumber(enclosure.attributes.length || enclosure.attributes.fileSize),
+        showNotes: childText(item, 'content:encoded', 'description', 'itunes:summary'),
+        link: childText(item, 'link')
+    };
+}
+
+function parseAtomEntry(entry: XmlElement): PodcastEpisode | null {
+    const links = entry.children.filter(child => child.name === 'link');
+    const enclosure = links.find(link => link.attributes.rel === 'enclosure' && link.attributes.href);
+    if (!enclosure) return null;
+
+    const enclosureUrl = enclosure.attributes.href.trim();
+    const alternate = links.find(link => !link.attributes.rel || link.attributes.rel === 'alternate');
+    return {
+        guid: childText(entry, 'id') || enclosureUrl,
+        title: childText(entry, 'title') || enclosureUrl,
+        publishedAt: toIsoDate(childText(entry, 'published', 'updated')),
+        duration: parseItunesDuration(childText(entry, 'itunes:duration')),
+        enclosureUrl,
+        enclosureType: enclosure.attributes.type,
+        enclosureLength: toPositiveNumber(enclosure.attributes.length),
+        showNotes: childText(entry, 'content', 'summary'),
+        link: alternate?.attributes.href
+    };
+}
+
+export function parsePodcastFeed(xml: string): PodcastFeed {
+    const document = parseXml(xml);
+    const rss = findChild(document, 'rss');
+    const atom = findChild(document, 'feed');
+
+    let title: string | undefined;
+    let episodes: (PodcastEpisode | null)[];
+    if (rss) {
+        const channel = findChild(rss, 'channel');
+        if (!channel) throw new Error('RSS feed has no channel');
+        title = childText(channel, 'title');
+        episodes = channel.children.filter(child => child.name === 'item').map(parseRssItem);
+    } else if (atom) {
+        title = childText(atom, 'title');
+        episodes = atom.children.filter(child => child.name === 'entry').map(parseAtomEntry);
+    } else {
+        throw new Error('Not an RSS or Atom feed');
+    }
+
+    const withEnclosures = episodes.filter((episode): episode is PodcastEpisode => episode !== null);
+    // Feeds are usually newest first already; undated episodes keep their feed order at the end.
+    const sorted = withEnclosures
+        .map((episode, order) => ({ episode, order, time: episode.publishedAt ? Date.parse(episode.publishedAt) : -Infinity }))
+        .sort((a, b) => (b.time - a.time) || (a.order - b.order))
+        .map(({ episode }) => episode);
+
+    return { title: title || 'Podcast', episodes: sorted };
+}
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/aac': 'aac',
+    'audio/ogg': 'ogg',
+    'audio/opus': 'opus',
+    'audio/flac': 'flac',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm'
+};
+
+const EPISODE_EXTENSIONS = new Set([...Object.values(EXTENSIONS_BY_TYPE), 'm4b', 'wav']);
+
+export function getEpisodeFileName(episode: PodcastEpisode): string {
+    const urlPath = episode.enclosureUrl.split(/[?#]/)[0];
+    const urlExtension = urlPath.match(/\.([a-z0-9]{2,4})$/i)?.[1].toLowerCase();
+    const typeExtension = episode.enclosureType ? EXTENSIONS_BY_TYPE[episode.enclosureType.toLowerCase()] : undefined;
+    const date = episode.publishedAt ? `${episode.publishedAt.substring(0, 10)} ` : '';
+    const extension = urlExtension && EPISODE_EXTENSIONS.has(urlExtension) ? urlExtension : typeExtension;
+    return `${toPlaylistFolderName(`${date}${episode.title}`)}.${extension || 'mp3'}`;
+}
+
+// Shares yt-dlp's "<extractor> <id>" line format so one download archive covers both.
+export function getEpisodeArchiveKey(guid: string): string {
+    return `podcast ${guid.replace(/\s+/g, '_')}`;
+}
+
+// The feed data of a downloaded episode lives next to its file, so it survives reloads and reaches every device.
+export function getEpisodeSidecarPath(mediaPath: string): string {
+    return `${mediaPath.replace(/\.[^./]+$/, '')}${EPISODE_SIDECAR_SUFFIX}`;
+}
+
+export function parseEpisodeSidecar(text: string): EpisodeMetadata | null {
+    try {
+        const episode = JSON.parse(text) as EpisodeMetadata;
+        return episode && typeof episode.guid === 'string' && typeof episode.title === 'string' && typeof episode.podcast === 'string'
+            ? episode
+            : null;
+    } catch {
+        return null;
+    }
+}
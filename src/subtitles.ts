@@ -0,0 +1,164 @@
+const SRT_TIMING_PATTERN = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+const SRT_CUE_NUMBER_PATTERN = /^\s*\d+\s*$/;
+const SUPPORTED_CUE_TAG_PATTERN = /^<\/?(b|i|u)>/i;
+
+interface SrtCue {
+    start: number; // in seconds
+    end: number; // in seconds
+    text: string[];
+}
+
+export function parseSubtitleTimestamp(value: string): number | null {
+    // Accept the sloppy variants found in the wild: "1:02:03,5", "02:03.500" or "01:02:03:500".
+    const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,:](\d{1,3}))?$/);
+    if (!match) return null;
+
+    const hours = parseInt(match[1] ?? '0', 10);
+    const minutes = parseInt(match[2], 10);
+    const seconds = parseInt(match[3], 10);
+    const millis = parseInt((match[4] ?? '0').padEnd(3, '0'), 10);
+
+    return hours * 3600 + minutes * 60 + seconds + millis / 1000;
+}
+
+export function formatVttTimestamp(totalSeconds: number): string {
+    const totalMillis = Math.max(0, Math.round(totalSeconds * 1000));
+    const hours = Math.floor(totalMillis / 3600000);
+    const minutes = Math.floor((totalMillis % 3600000) / 60000);
+    const seconds = Math.floor((totalMillis % 60000) / 1000);
+    const millis = totalMillis % 1000;
+
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+}
+
+function convertSrtCueText(line: string): string {
+    const withoutAssTags = line
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/<\/?font[^>]*>/gi, '')
+        .replace(/-->/g, '->');
+
+    // WebVTT only understands a handful of tags, so escape any other "<" instead of letting it swallow the cue.
+    let result = '';
+    for (let i = 0; i < withoutAssTags.length; i++) {
+        const char = withoutAssTags[i];
+        if (char === '<' && !SUPPORTED_CUE_TAG_PATTERN.test(withoutAssTags.slice(i))) {
+            result += '&lt;';
+        } else {
+            result += char;
+        }
+    }
+    return result;
+}
+
+export function convertSrtToVtt(srt: string): string {
+    const lines = srt
+        .replace(/^\uFEFF/, '')
+        .replace(/\r\n?/g, '\n')
+        .split('\n');
+
+    const cues: SrtCue[] = [];
+    let currentCue: SrtCue | null = null;
+
+    // A cue number is a lone numeric line between a blank line (or the start of the file) and the timing line.
+    // Numeric lines anywhere else are dialogue, e.g. a countdown, and stay.
+    const isCueNumberLine = (index: number) => index >= 0
+        && SRT_CUE_NUMBER_PATTERN.test(lines[index])
+        && (index === 0 || !lines[index - 1].trim());
+
+    for (let i = 0; i < lines.length; i++) {
+        const rawLine = lines[i];
+        const timingMatch = rawLine.match(SRT_TIMING_PATTERN);
+        if (timingMatch) {
+            const start = parseSubtitleTimestamp(timingMatch[1]);
+            const end = parseSubtitleTimestamp(timingMatch[2]);
+            if (start !== null && end !== null) {
+                // Cue numbers are optional and often wrong, so they are dropped rather than checked.
+                if (currentCue && isCueNumberLine(i - 1)) {
+                    currentCue.text.pop();
+                }
+                currentCue = { start, end, text: [] };
+                cues.push(currentCue);
+                continue;
+            }
+        }
+
+        if (!currentCue) continue;
+
+        const line = rawLine.trimEnd();
+        // Blank lines are not allowed inside a WebVTT cue payload.
+        if (!line.trim()) continue;
+        currentCue.text.push(convertSrtCueText(line));
+    }
+
+    const body = cues
+        .filter(cue => cue.text.length > 0 && cue.end > cue.start)
+        .map(cue => `${formatVttTimestamp(cue.start)} --> ${formatVttTimestamp(cue.end)}\n${cue.text.join('\n')}`)
+        .join('\n\n');
+
+    return `WEBVTT\n\n${body}\n`;
+}
+
+export const SUBTITLE_EXTENSIONS = ['vtt', 'srt'];
+
+const SUBTITLE_LANGUAGE_PATTERN = /^[a-z]{2,3}(?:[-_][a-z0-9]{2,8})?$/i;
+const SUBTITLE_FLAG_NAMES = ['forced', 'sdh', 'cc', 'hi', 'default'];
+
+export interface SidecarSubtitleInfo {
+    language: string;
+    flags: string[];
+    extension: string;
+}
+
+export function parseSidecarSubtitleName(mediaBaseName: string, fileName: string): SidecarSubtitleInfo | null {
+    if (!fileName.startsWith(`${mediaBaseName}.`)) return null;
+
+    const segments = fileName.slice(mediaBaseName.length + 1).split('.');
+    const extension = (segments.pop() ?? '').toLowerCase();
+    if (!SUBTITLE_EXTENSIONS.includes(extension)) return null;
+
+    // "movie.en.forced.vtt" -> language "en", flags ["forced"]; "movie.srt" has neither.
+    let language = '';
+    const flags: string[] = [];
+    for (const segment of segments) {
+        if (!segment) continue;
+        if (!language && SUBTITLE_LANGUAGE_PATTERN.test(segment) && !SUBTITLE_FLAG_NAMES.includes(segment.toLowerCase())) {
+            language = segment.replace('_', '-').toLowerCase();
+        } else {
+            flags.push(segment.toLowerCase());
+        }
+    }
+
+    return { language, flags, extension };
+}
+
+export function formatSubtitleLabel(info: SidecarSubtitleInfo): string {
+    const base = info.language ? info.language.toUpperCase() : info.extension.toUpperCase();
+    if (info.flags.length === 0) return base;
+
+    const flagText = info.flags.map(flag => flag.charAt(0).toUpperCase() + flag.slice(1)).join(', ');
+    return `${base} (${flagText})`;
+}
+
+export function parsePreferredLanguages(value: string): string[] {
+    return value
+        .split(',')
+        .map(language => language.trim().replace('_', '-').toLowerCase())
+        .filter(language => language.length > 0);
+}
+
+export function pickPreferredSubtitleIndex(infos: SidecarSubtitleInfo[], preferredLanguages: string[]): number {
+    if (infos.length === 0) return -1;
+
+    for (const preferred of preferredLanguages) {
+        const matches = infos
+            .map((info, index) => ({ info, index }))
+            .filter(({ info }) => info.language === preferred || info.language.split('-')[0] === preferred);
+        if (matches.length === 0) continue;
+
+        // Forced tracks only cover foreign dialogue, so prefer the full track when both exist.
+        const fullTrack = matches.find(({ info }) => !info.flags.includes('forced'));
+        return (fullTrack ?? matches[0]).index;
+    }
+
+    return 0;
+}
@@ -0,0 +1,323 @@
+import { EqualizerPresetId, MediaBookmark, MediaItem, MediaLoop } from './types';
+
+export const SYNC_LOG_VERSION = 1;
+
+export interface PlaybackFields {
+    position: number;
+    status: MediaItem['status'];
+    finished: boolean;
+    countedAsConsumed: boolean;
+    consumedAt: string;
+    subtitleOffset: number;
+    playbackSpeed: number;
+    equalizerPreset: EqualizerPresetId;
+    playbackDeviceId: string;
+    playbackDeviceName: string;
+}
+
+const PLAYBACK_FIELD_NAMES: (keyof PlaybackFields)[] = [
+    'position',
+    'status',
+    'finished',
+    'countedAsConsumed',
+    'consumedAt',
+    'subtitleOffset',
+    'playbackSpeed',
+    'equalizerPreset',
+    'playbackDeviceId',
+    'playbackDeviceName'
+];
+
+interface SyncEventBase {
+    v: number;
+    device: string;
+    seq: number;
+    at: number;
+    itemId: string;
+    path: string;
+}
+
+export type SyncEventBody =
+    | { type: 'set'; fields: Partial<PlaybackFields> }
+    | { type: 'bookmark-put'; bookmark: MediaBookmark }
+    | { type: 'bookmark-remove'; bookmarkId: string }
+    | { type: 'loop-put'; loop: MediaLoop }
+    | { type: 'loop-remove'; loopId: string };
+
+export type SyncEvent = SyncEventBase & SyncEventBody;
+
+export interface PlaybackSnapshot {
+    fields: Partial<PlaybackFields>;
+    bookmarks: Map<string, string>; // id -> serialized bookmark
+    loops: Map<string, string>; // id -> serialized loop
+}
+
+export interface SyncedItemState {
+    itemId: string;
+    path: string;
+    updatedAt: number;
+    fields: Partial<PlaybackFields>;
+    bookmarks: Map<string, MediaBookmark>;
+    removedBookmarkIds: Set<string>;
+    loops: Map<string, MediaLoop>;
+    removedLoopIds: Set<string>;
+}
+
+// Every device sorts events the same way, so every device folds the logs into the same state.
+export function compareSyncEvents(a: SyncEvent, b: SyncEvent): number {
+    if (a.at !== b.at) return a.at - b.at;
+    if (a.device !== b.device) return a.device < b.device ? -1 : 1;
+    return a.seq - b.seq;
+}
+
+export function parseSyncLog(text: string): SyncEvent[] {
+    const events: SyncEvent[] = [];
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const event = JSON.parse(line) as SyncEvent;
+            // A half-synced file can end in a truncated line; skip anything that isn't a complete event.
+            if (event && typeof event.device === 'string' && typeof event.seq === 'number' && typeof event.at === 'number' && typeof event.itemId === 'string') {
+                events.push(event);
+            }
+        } catch {
+            continue;
+        }
+    }
+    return events;
+}
+
+export function serializeSyncEvents(events: SyncEvent[]): string {
+    return events.map(event => JSON.stringify(event)).join('\n') + (events.length > 0 ? '\n' : '');
+}
+
+export function snapshotPlaybackState(item: MediaItem): PlaybackSnapshot {
+    const fields: Partial<PlaybackFields> = {};
+    for (const name of PLAYBACK_FIELD_NAMES) {
+        const value = item[name];
+        if (value !== undefined) {
+            (fields as Record<string, unknown>)[name] = value;
+        }
+    }
+
+    return {
+        fields,
+        bookmarks: new Map((item.bookmarks ?? []).map(bookmark => [bookmark.id, JSON.stringify(bookmark)])),
+        loops: new Map((item.loops ?? []).map(loop => [loop.id, JSON.stringify(loop)]))
+    };
+}
+
+export function diffPlaybackState(previous: PlaybackSnapshot, item: MediaItem): SyncEventBody[] {
+    const current = snapshotPlaybackState(item);
+    const changes: SyncEventBody[] = [];
+
+    const changedFields: Partial<PlaybackFields> = {};
+    let hasFieldChanges = false;
+    for (const name of PLAYBACK_FIELD_NAMES) {
+        if (current.fields[name] !== previous.fields[name]) {
+            // JSON has no undefined, so a cleared optional field is logged as null.
+            (changedFields as Record<string, unknown>)[name] = current.fields[name] ?? null;
+            hasFieldChanges = true;
+        }
+    }
+    if (hasFieldChanges) {
+        changes.push({ type: 'set', fields: changedFields });
+    }
+
+    for (const bookmark of item.bookmarks ?? []) {
+        if (previous.bookmarks.get(bookmark.id) !== current.bookmarks.get(bookmark.id)) {
+            changes.push({ type: 'bookmark-put', bookmark });
+        }
+    }
+    for (const bookmarkId of previous.bookmarks.keys()) {
+        if (!current.bookmarks.has(bookmarkId)) {
+            changes.push({ type: 'bookmark-remove', bookmarkId });
+        }
+    }
+
+    for (const loop of item.loops ?? []) {
+        if (previous.loops.get(loop.id) !== current.loops.get(loop.id)) {
+            changes.push({ type: 'loop-put', loop });
+        }
+    }
+    for (const loopId of previous.loops.keys()) {
+        if (!current.loops.has(loopId)) {
+            changes.push({ type: 'loop-remove', loopId });
+        }
+    }
+
+    return changes;
+}
+
+// The baseline for an item whose state was just restored: diffing the item against it logs every field
+// (cleared ones as null), bookmark and loop again, plus removals of whatever the restore dropped. Those events are
+// newer than anything logged since the backup was taken, so the restored state wins the fold on every device.
+export function snapshotBeforeRestore(previous: PlaybackSnapshot | undefined, item: MediaItem): PlaybackSnapshot {
+    const fields: Partial<PlaybackFields> = {};
+    for (const name of PLAYBACK_FIELD_NAMES) {
+        if (item[name] === undefined) {
+            (fields as Record<string, unknown>)[name] = null;
+        }
+    }
+
+    const bookmarks = new Map(previous?.bookmarks);
+    for (const bookmark of item.bookmarks ?? []) {
+        bookmarks.delete(bookmark.id);
+    }
+    const loops = new Map(previous?.loops);
+    for (const loop of item.loops ?? []) {
+        loops.delete(loop.id);
+    }
+
+    return { fields, bookmarks, loops };
+}
+
+export function foldSyncEvents(events: SyncEvent[]): Map<string, SyncedItemState> {
+    const states = new Map<string, SyncedItemState>();
+
+    for (const event of [...events].sort(compareSyncEvents)) {
+        let state = states.get(event.itemId);
+        if (!state) {
+            state = {
+                itemId: event.itemId,
+                path: event.path,
+                updatedAt: 0,
+                fields: {},
+                bookmarks: new Map(),
+                removedBookmarkIds: new Set(),
+                loops: new Map(),
+                removedLoopIds: new Set()
+            };
+            states.set(event.itemId, state);
+        }
+        state.path = event.path || state.path;
+        state.updatedAt = Math.max(state.updatedAt, event.at);
+
+        switch (event.type) {
+            case 'set':
+                // Last writer wins per field, so a position update and a speed change on two devices both survive.
+                Object.assign(state.fields, event.fields);
+                break;
+            case 'bookmark-put':
+                state.bookmarks.set(event.bookmark.id, event.bookmark);
+                state.removedBookmarkIds.delete(event.bookmark.id);
+                break;
+            case 'bookmark-remove':
+                // Removals are tombstones, so a copy of the bookmark in some data.json doesn't bring it back.
+                // Only a newer put does, e.g. from restoring a backup.
+                state.bookmarks.delete(event.bookmarkId);
+                state.removedBookmarkIds.add(event.bookmarkId);
+                break;
+            case 'loop-put':
+                state.loops.set(event.loop.id, event.loop);
+                state.removedLoopIds.delete(event.loop.id);
+                break;
+            case 'loop-remove':
+                state.loops.delete(event.loopId);
+                state.removedLoopIds.add(event.loopId);
+                break;
+        }
+    }
+
+    return states;
+}
+
+export function findSyncedState(states: Map<string, SyncedItemState>, item: Pick<MediaItem, 'id' | 'path' | 'addedAt'>): SyncedItemState | undefined {
+    const byId = states.get(item.id);
+    if (byId) return byId;
+
+    // Devices that scanned the same file independently gave it different ids, so fall back to the path.
+    // History from before the item was added belongs to an earlier file at that path, not to this one.
+    if (!item.addedAt) return undefined;
+    let byPath: SyncedItemState | undefined;
+    for (const state of states.values()) {
+        if (state.path === item.path && state.updatedAt >= item.addedAt && (!byPath || state.updatedAt > byPath.updatedAt)) {
+            byPath = state;
+        }
+    }
+    return byPath;
+}
+
+function mergeById<T extends { id: string }>(local: T[] | undefined, logged: Map<string, T>, removedIds: Set<string>, sortKey: (entry: T) => number): T[] | undefined {
+    const merged = new Map<string, T>();
+    for (const entry of local ?? []) {
+        merged.set(entry.id, entry);
+    }
+    for (const [id, entry] of logged) {
+        merged.set(id, entry);
+    }
+    for (const id of removedIds) {
+        merged.delete(id);
+    }
+
+    const result = [...merged.values()].sort((a, b) => sortKey(a) - sortKey(b));
+    return result.length > 0 ? result : undefined;
+}
+
+// Returns true when the item changed.
+export function applySyncedState(item: MediaItem, state: SyncedItemState): boolean {
+    const before = JSON.stringify(snapshotToComparable(snapshotPlaybackState(item)));
+
+    for (const name of PLAYBACK_FIELD_NAMES) {
+        if (!(name in state.fields)) continue;
+        const value = state.fields[name];
+        if (value === null || value === undefined) {
+            delete item[name];
+        } else {
+            (item as unknown as Record<string, unknown>)[name] = value;
+        }
+    }
+
+    const bookmarks = mergeById(item.bookmarks, state.bookmarks, state.removedBookmarkIds, bookmark => bookmark.time);
+    if (bookmarks) item.bookmarks = bookmarks; else delete item.bookmarks;
+
+    const loops = mergeById(item.loops, state.loops, state.removedLoopIds, loop => loop.start);
+    if (loops) item.loops = loops; else delete item.loops;
+
+    item.playbackUpdatedAt = Math.max(item.playbackUpdatedAt || 0, state.updatedAt);
+
+    return JSON.stringify(snapshotToComparable(snapshotPlaybackState(item))) !== before;
+}
+
+function snapshotToComparable(snapshot: PlaybackSnapshot) {
+    return {
+        fields: snapshot.fields,
+        bookmarks: [...snapshot.bookmarks.entries()].sort(),
+        loops: [...snapshot.loops.entries()].sort()
+    };
+}
+
+// Only the owning device rewrites its log. Dropping superseded events of one device never changes the fold,
+// because for every field and id only that device's latest event can matter.
+export function compactDeviceEvents(events: SyncEvent[], liveItems: Pick<MediaItem, 'id' | 'path'>[]): SyncEvent[] {
+    const liveIds = new Set(liveItems.map(item => item.id));
+    const livePaths = new Set(liveItems.map(item => item.path));
+    const kept = new Map<string, SyncEvent>();
+
+    for (const event of [...events].sort(compareSyncEvents)) {
+        // Items that left the queue on every path don't need their history any more.
+        if (!liveIds.has(event.itemId) && !livePaths.has(event.path)) continue;
+
+        switch (event.type) {
+            case 'set':
+                for (const [name, value] of Object.entries(event.fields)) {
+                    kept.set(`${event.itemId}:field:${name}`, { ...event, fields: { [name]: value } });
+                }
+                break;
+            case 'bookmark-put':
+                kept.set(`${event.itemId}:bookmark:${event.bookmark.id}`, event);
+                break;
+            case 'bookmark-remove':
+                kept.set(`${event.itemId}:bookmark:${event.bookmarkId}`, event);
+                break;
+            case 'loop-put':
+                kept.set(`${event.itemId}:loop:${event.loop.id}`, event);
+                break;
+            case 'loop-remove':
+                kept.set(`${event.itemId}:loop:${event.loopId}`, event);
+                break;
+        }
+    }
+
+    return [...kept.values()].sort(compareSyncEvents);
+}
@@ -1,27 +1,85 @@
+export interface MediaBookmark {
+    id: string;
+    time: number; // in seconds
+    note?: string;
+    createdAt: number;
+}
+
+export interface MediaLoop {
+    id: string;
+    start: number; // in seconds
+    end: number; // in seconds
+    createdAt: number;
+}
+
+export interface MediaChapter {
+    start: number; // in seconds
+    title: string;
+}
+
+export interface EpisodeMetadata {
+    podcast: string;
+    guid: string;
+    title: string;
+    publishedAt?: string; // ISO date
+    showNotes?: string; // HTML from the feed
+    link?: string;
+}
+
 export interface MediaItem {
     id: string;
     path: string;
     name: string;
     status: 'pending' | 'playing' | 'completed';
+    addedAt?: number; // when this device first put the file in the queue
     finished?: boolean;
     position: number;
     playbackUpdatedAt?: number;
+    playbackDeviceId?: string; // device that made the last playback change
+    playbackDeviceName?: string;
     duration: number;
     size?: number; // in bytes
     countedAsConsumed?: boolean;
     consumedAt?: string;
+    bookmarks?: MediaBookmark[];
+    loops?: MediaLoop[];
+    subtitleOffset?: number; // in seconds, positive delays subtitles
+    chapters?: MediaChapter[]; // empty once scanned without finding any
+    playbackSpeed?: number; // overrides folder rules and the global speed
+    silenceSkippedSeconds?: number; // listening time saved by skip silence
+    equalizerPreset?: EqualizerPresetId; // overrides folder rules and the default preset
+    replayGainDb?: number; // gain to reach the ReplayGain reference loudness (-18 LUFS)
+    episode?: EpisodeMetadata; // set when the file was downloaded from a podcast feed
 }
 
 export interface ConsumptionStatBucket {
     seconds: number;
     completedCount: number;
+    silenceSkippedSeconds?: number;
+}
+
+export interface FolderSpeedRule {
+    folder: string; // vault path of a folder inside the watched folder
+    speed: number;
+}
+
+export type EqualizerPresetId = 'flat' | 'voice' | 'bass' | 'night' | 'custom';
+
+export interface FolderEqualizerRule {
+    folder: string; // vault path of a folder inside the watched folder
+    preset: EqualizerPresetId;
 }
 
 export interface CrossPlayerSettings {
     watchedFolder: string;
     defaultPlaybackSpeed: number;
+    folderSpeedRules: FolderSpeedRule[];
     seekSecondsForward: number;
     seekSecondsBackward: number;
+    preferredSubtitleLanguages: string; // comma-separated, e.g. "fr, en"
+    subtitleFontSizePercent: number;
+    subtitleBackgroundOpacity: number; // 0-100
+    subtitleVerticalPosition: number; // percent from the top, 100 keeps the browser default
     // YouTube Download Settings
     youtubeDlpPath: string;
     ffmpegPath: string;
@@ -29,12 +87,42 @@ export interface CrossPlayerSettings {
     downloadFolder: string;
     showMediaIndicator: boolean;
     storageLimitGB: number;
+    storageReserveGB: number; // kept free on the fullest device when deriving the limit
+    autoTrashCompletedOverLimit: boolean;
+    pauseDownloadsOverLimit: boolean;
+    refuseFilesOverLimit: boolean;
+    maxConcurrentDownloads: number;
+    downloadWindowEnabled: boolean;
+    downloadWindowStartHour: number; // 0-23, local time
+    downloadWindowEndHour: number; // 0-23, the window may wrap past midnight
+    subscriptions: MediaSubscription[];
+    subscriptionCheckIntervalMinutes: number;
+    subscriptionMaxNewEntries: number; // only this many of the newest entries are considered per check
     autoplayNext: boolean;
     showProgressColor: boolean;
     pauseOnMobileTap: boolean;
     wrapQueueText: boolean;
     volumeBoostPercent: number;
     soundNormalization: boolean;
+    loudnessNormalization: boolean;
+    loudnessTargetLufs: number;
+    skipSilence: boolean;
+    skipSilenceThresholdDb: number;
+    equalizerPreset: EqualizerPresetId;
+    customEqualizerGains: number[]; // dB per band in EQUALIZER_BANDS order
+    folderEqualizerRules: FolderEqualizerRule[];
+}
+
+export interface MediaSubscription {
+    id: string;
+    name: string;
+    url: string; // channel, playlist or feed link
+    kind?: 'youtube' | 'podcast'; // podcasts are fetched directly instead of through yt-dlp
+    type: 'video' | 'audio';
+    quality: string;
+    enabled: boolean;
+    lastCheckedAt?: number;
+    lastError?: string;
 }
 
 export interface DownloadStatus {
@@ -43,13 +131,19 @@ export interface DownloadStatus {
     progress: string;
     speed: string;
     eta: string;
-    status: 'downloading' | 'paused' | 'converting' | 'completed' | 'error';
+    status: 'queued' | 'downloading' | 'paused' | 'converting' | 'completed' | 'error';
     error?: string;
     params?: {
         url: string;
         quality: string;
         type: 'video' | 'audio';
+        targetFolder?: string; // vault path the download was started into
+        subscriptionId?: string; // recorded in the download archive once finished
+        episode?: EpisodeMetadata; // podcast episodes are fetched over HTTP instead of yt-dlp
+        fileName?: string;
     };
+    destination?: string; // vault path yt-dlp is writing; partial data sits next to it as .part
+    updatedAt?: number;
 }
 
 export interface CrossPlayerData {
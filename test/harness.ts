@@ -0,0 +1,11 @@
+// Just enough of a test runner for pure modules: no framework, so it runs under plain Node.
+export function test(name: string, fn: () => void) {
+    try {
+        fn();
+        console.log(`ok - ${name}`);
+    } catch (error) {
+        process.exitCode = 1;
+        console.error(`not ok - ${name}`);
+        console.error(error);
+    }
+}
@@ -0,0 +1,27 @@
+import assert from 'assert';
+import { getItemsRemovedByDelete } from '../src/offline';
+import { MediaItem } from '../src/types';
+import { test } from './harness';
+
+function makeItem(id: string, path: string): MediaItem {
+    return { id, path, name: path.split('/').pop() ?? path, status: 'pending', position: 0, duration: 100 };
+}
+
+const queue = [makeItem('a', 'Media/a.mp3'), makeItem('b', 'Media/Show/b.mp3'), makeItem('c', 'Media/Show/c.mp3')];
+
+test('a device without an offline subset removes deleted files from the queue', () => {
+    assert.deepStrictEqual(getItemsRemovedByDelete(queue, 'Media/a.mp3', new Set()).map(item => item.id), ['a']);
+    assert.deepStrictEqual(getItemsRemovedByDelete(queue, 'Media/Show', new Set()).map(item => item.id), ['b', 'c']);
+});
+
+test('files a device does not keep leave it without leaving the queue', () => {
+    assert.deepStrictEqual(getItemsRemovedByDelete(queue, 'Media/a.mp3', new Set(['b'])), []);
+});
+
+test('deleting a kept file still removes its item', () => {
+    assert.deepStrictEqual(getItemsRemovedByDelete(queue, 'Media/Show', new Set(['b'])).map(item => item.id), ['b']);
+});
+
+test('paths that only share a prefix are not affected', () => {
+    assert.deepStrictEqual(getItemsRemovedByDelete(queue, 'Media/Sh', new Set()), []);
+});
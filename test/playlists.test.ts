@@ -0,0 +1,64 @@
+import assert from 'assert';
+import { readFileSync } from 'fs';
+import { parseFlatPlaylist, toPlaylistFolderName } from '../src/playlists';
+import { test } from './harness';
+
+const readFixture = (name: string) => readFileSync(`test/fixtures/${name}`, 'utf8');
+
+test('flattens the tabs of a YouTube channel into one list of entries', () => {
+    const listing = parseFlatPlaylist(readFixture('flat-playlist.youtube-channel.json'));
+
+    assert.strictEqual(listing.title, 'Jordan Example');
+    assert.deepStrictEqual(listing.entries, [
+        {
+            id: 'a1B2c3D4e5F',
+            url: 'https://www.youtube.com/watch?v=a1B2c3D4e5F',
+            title: 'Brewing oolong at home',
+            duration: 612,
+            archiveKey: 'youtube a1B2c3D4e5F'
+        },
+        {
+            id: 'Zz9Yy8Xx7Ww',
+            url: 'https://www.youtube.com/watch?v=Zz9Yy8Xx7Ww',
+            title: 'Live Q&A (upcoming)',
+            duration: undefined,
+            archiveKey: 'youtube Zz9Yy8Xx7Ww'
+        },
+        {
+            id: 'Qq1Ww2Ee3Rr',
+            url: 'https://www.youtube.com/watch?v=Qq1Ww2Ee3Rr',
+            title: 'Old upload',
+            duration: 95,
+            archiveKey: 'youtube Qq1Ww2Ee3Rr'
+        },
+        {
+            id: 'Sh0rt5h0rt5',
+            url: 'https://www.youtube.com/shorts/Sh0rt5h0rt5',
+            title: '60 second sencha',
+            duration: undefined,
+            archiveKey: 'youtube Sh0rt5h0rt5'
+        }
+    ]);
+});
+
+test('never turns entries from other sites into YouTube links', () => {
+    const listing = parseFlatPlaylist(readFixture('flat-playlist.vimeo-showcase.json'));
+
+    assert.deepStrictEqual(listing.entries.map(entry => entry.url), [
+        'https://vimeo.com/76979871',
+        'https://player.vimeo.com/video/76979873'
+    ]);
+    assert.ok(!listing.entries.some(entry => entry.url.includes('youtube.com')));
+});
+
+test('a single video yields one entry', () => {
+    const listing = parseFlatPlaylist('{"id": "a1B2c3D4e5F", "title": "Brewing oolong at home", "webpage_url": "https://www.youtube.com/watch?v=a1B2c3D4e5F", "duration": 612}');
+
+    assert.strictEqual(listing.entries.length, 1);
+    assert.strictEqual(listing.entries[0].url, 'https://www.youtube.com/watch?v=a1B2c3D4e5F');
+});
+
+test('folder names drop characters other platforms reject', () => {
+    assert.strictEqual(toPlaylistFolderName('Tea: a "history" / part #1?'), 'Tea a history part 1');
+    assert.strictEqual(toPlaylistFolderName('...'), 'Playlist');
+});
@@ -0,0 +1,146 @@
+import assert from 'assert';
+import { readFileSync } from 'fs';
+import { getEpisodeArchiveKey, getEpisodeFileName, getEpisodeSidecarPath, parseEpisodeSidecar, parseItunesDuration, parsePodcastFeed, PodcastEpisode } from '../src/podcasts';
+import { EpisodeMetadata } from '../src/types';
+import { test } from './harness';
+
+const readFixture = (name: string) => readFileSync(`test/fixtures/${name}`, 'utf8');
+
+function mapBy<T>(episodes: PodcastEpisode[], key: (episode: PodcastEpisode) => string, value: (episode: PodcastEpisode) => T): Record<string, T> {
+    const result: Record<string, T> = {};
+    for (const episode of episodes) {
+        result[key(episode)] = value(episode);
+    }
+    return result;
+}
+
+test('parses an RSS feed newest first, keeping undated episodes at the end', () => {
+    const feed = parsePodcastFeed(readFixture('podcast-feed.rss.xml'));
+
+    assert.strictEqual(feed.title, 'Tea & Tangents');
+    assert.deepStrictEqual(feed.episodes.map(episode => episode.title), [
+        'Episode 3 – What’s next?',
+        'Episode 2',
+        'Episode 1: Hello',
+        'Bonus'
+    ]);
+});
+
+test('skips RSS items without an enclosure', () => {
+    const feed = parsePodcastFeed(readFixture('podcast-feed.rss.xml'));
+    assert.ok(!feed.episodes.some(episode => episode.guid === 'tea-news'));
+});
+
+test('reads RSS episode fields, CDATA and entities', () => {
+    const feed = parsePodcastFeed(readFixture('podcast-feed.rss.xml'));
+    const first = feed.episodes.find(episode => episode.guid === 'tea-ep-1');
+
+    assert.deepStrictEqual(first, {
+        guid: 'tea-ep-1',
+        title: 'Episode 1: Hello',
+        publishedAt: '2024-01-01T10:00:00.000Z',
+        duration: 3723,
+        enclosureUrl: 'https://cdn.example.com/ep1.mp3?source=rss&v=2',
+        enclosureType: 'audio/mpeg',
+        enclosureLength: 1234567,
+        showNotes: '<p>First <b>episode</b> & friends</p>',
+        link: 'https://example.com/show/1'
+    });
+});
+
+test('prefers content:encoded over the description', () => {
+    const feed = parsePodcastFeed(readFixture('podcast-feed.rss.xml'));
+    assert.strictEqual(feed.episodes.find(episode => episode.guid === 'tea-ep-3')?.showNotes, '<p>Rich notes</p>');
+});
+
+test('falls back to the enclosure URL when an item has no guid', () => {
+    const feed = parsePodcastFeed(readFixture('podcast-feed.rss.xml'));
+    const second = feed.episodes.find(episode => episode.title === 'Episode 2');
+    assert.strictEqual(second?.guid, 'https://cdn.example.com/ep2.mp3');
+});
+
+test('parses every itunes:duration format in the feed', () => {
+    const feed = parsePodcastFeed(readFixture('podcast-feed.rss.xml'));
+    const durations = mapBy(feed.episodes, episode => episode.title, episode => episode.duration);
+
+    assert.strictEqual(durations['Episode 1: Hello'], 3723);
+    assert.strictEqual(durations['Episode 2'], 3723);
+    assert.strictEqual(durations['Episode 3 – What’s next?'], 125);
+    assert.strictEqual(durations['Bonus'], undefined);
+});
+
+test('parseItunesDuration handles seconds, mm:ss, hh:mm:ss and rejects junk', () => {
+    assert.strictEqual(parseItunesDuration('125'), 125);
+    assert.strictEqual(parseItunesDuration('02:05'), 125);
+    assert.strictEqual(parseItunesDuration('1:00:01'), 3601);
+    assert.strictEqual(parseItunesDuration(' 90.5 '), 90.5);
+    assert.strictEqual(parseItunesDuration('0'), undefined);
+    assert.strictEqual(parseItunesDuration('1:2:3:4'), undefined);
+    assert.strictEqual(parseItunesDuration('-5'), undefined);
+    assert.strictEqual(parseItunesDuration('soon'), undefined);
+    assert.strictEqual(parseItunesDuration(undefined), undefined);
+});
+
+test('parses an Atom feed with enclosure links', () => {
+    const feed = parsePodcastFeed(readFixture('podcast-feed.atom.xml'));
+
+    assert.strictEqual(feed.title, 'Atom & Eve');
+    assert.deepStrictEqual(feed.episodes, [
+        {
+            guid: 'urn:uuid:newer',
+            title: 'Newer entry',
+            publishedAt: '2024-03-01T08:00:00.000Z',
+            duration: undefined,
+            enclosureUrl: 'https://example.org/newer.mp3',
+            enclosureType: 'audio/mpeg',
+            enclosureLength: undefined,
+            showNotes: '<p>Full content</p>',
+            link: 'https://example.org/newer'
+        },
+        {
+            guid: 'urn:uuid:older',
+            title: 'Older entry',
+            publishedAt: '2024-02-01T08:00:00.000Z',
+            duration: 45,
+            enclosureUrl: 'https://example.org/older.opus',
+            enclosureType: 'audio/opus',
+            enclosureLength: 42,
+            showNotes: 'Short summary',
+            link: 'https://example.org/older'
+        }
+    ]);
+});
+
+test('rejects documents that are not feeds', () => {
+    assert.throws(() => parsePodcastFeed('<html><body>Not a feed</body></html>'), /Not an RSS or Atom feed/);
+    assert.throws(() => parsePodcastFeed('<rss version="2.0"></rss>'), /no channel/);
+});
+
+test('names episode files after date and title with a media extension', () => {
+    const feed = parsePodcastFeed(readFixture('podcast-feed.rss.xml'));
+    const fileNames = mapBy(feed.episodes, episode => episode.guid, getEpisodeFileName);
+
+    assert.strictEqual(fileNames['tea-ep-1'], '2024-01-01 Episode 1 Hello.mp3');
+    // download.php is not a media extension, so the enclosure type decides.
+    assert.strictEqual(fileNames['tea-ep-3'], '2024-01-03 Episode 3 – What’s next.m4a');
+    assert.strictEqual(fileNames['tea-bonus'], 'Bonus.mp4');
+});
+
+test('falls back to mp3 when neither URL nor type names a format', () => {
+    const episode: PodcastEpisode = { guid: 'x', title: 'Mystery', enclosureUrl: 'https://example.com/stream' };
+    assert.strictEqual(getEpisodeFileName(episode), 'Mystery.mp3');
+});
+
+test('archive keys use the yt-dlp "<extractor> <id>" line format', () => {
+    assert.strictEqual(getEpisodeArchiveKey('tea-ep-1'), 'podcast tea-ep-1');
+    assert.strictEqual(getEpisodeArchiveKey('urn:uuid:with space\there'), 'podcast urn:uuid:with_space_here');
+});
+
+test('episode sidecars sit next to the media file and round-trip the metadata', () => {
+    assert.strictEqual(getEpisodeSidecarPath('Podcasts/Tea/2024-01-01 Episode 1 Hello.mp3'), 'Podcasts/Tea/2024-01-01 Episode 1 Hello.episode.json');
+
+    const episode: EpisodeMetadata = { podcast: 'Tea & Tangents', guid: 'tea-ep-1', title: 'Episode 1: Hello', showNotes: '<p>Hi</p>' };
+    assert.deepStrictEqual(parseEpisodeSidecar(JSON.stringify(episode)), episode);
+    assert.strictEqual(parseEpisodeSidecar('{"title": "No guid"}'), null);
+    assert.strictEqual(parseEpisodeSidecar('{ truncated'), null);
+});
@@ -0,0 +1,29 @@
+// Bundles each test/*.test.ts with esbuild and runs it under plain Node, from the repository root.
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import process from "process";
+
+const outdir = mkdtempSync(path.join(tmpdir(), "cross-player-tests-"));
+try {
+	for (const file of readdirSync("test").filter(name => name.endsWith(".test.ts"))) {
+		const outfile = path.join(outdir, file.replace(/\.ts$/, ".cjs"));
+		await esbuild.build({
+			entryPoints: [path.join("test", file)],
+			bundle: true,
+			platform: "node",
+			format: "cjs",
+			target: "node16",
+			logLevel: "warning",
+			outfile,
+		});
+
+		console.log(`# ${file}`);
+		const result = spawnSync(process.execPath, [outfile], { stdio: "inherit" });
+		if (result.status !== 0) process.exitCode = 1;
+	}
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
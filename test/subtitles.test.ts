@@ -0,0 +1,21 @@
+import assert from 'assert';
+import { convertSrtToVtt } from '../src/subtitles';
+import { test } from './harness';
+
+test('drops cue numbers before timing lines', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\nHello\n\n2\n00:00:03,000 --> 00:00:04,000\nWorld\n';
+
+    assert.strictEqual(convertSrtToVtt(srt), 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello\n\n00:00:03.000 --> 00:00:04.000\nWorld\n');
+});
+
+test('keeps numeric dialogue at the end of a cue', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\nCountdown:\n3\n2\n\n2\n00:00:03,000 --> 00:00:04,000\n1\n';
+
+    assert.strictEqual(convertSrtToVtt(srt), 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nCountdown:\n3\n2\n\n00:00:03.000 --> 00:00:04.000\n1\n');
+});
+
+test('keeps a numeric line that is not preceded by a blank line', () => {
+    const srt = '00:00:01,000 --> 00:00:02,000\nRoom\n101\n00:00:03,000 --> 00:00:04,000\nNext\n';
+
+    assert.strictEqual(convertSrtToVtt(srt), 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nRoom\n101\n\n00:00:03.000 --> 00:00:04.000\nNext\n');
+});
@@ -0,0 +1,178 @@
+import assert from 'assert';
+import { applySyncedState, compactDeviceEvents, compareSyncEvents, diffPlaybackState, findSyncedState, foldSyncEvents, snapshotBeforeRestore, snapshotPlaybackState, SyncEvent, SyncEventBody } from '../src/syncLog';
+import { MediaBookmark, MediaItem } from '../src/types';
+import { test } from './harness';
+
+const bookmark: MediaBookmark = { id: 'b1', time: 12, createdAt: 1 };
+
+function makeItem(overrides: Partial<MediaItem> = {}): MediaItem {
+    return { id: 'item', path: 'Media/a.mp3', name: 'a.mp3', status: 'pending', position: 0, duration: 100, ...overrides };
+}
+
+function makeEvent(at: number, body: SyncEventBody, overrides: Partial<Pick<SyncEvent, 'device' | 'seq' | 'itemId' | 'path'>> = {}): SyncEvent {
+    return { v: 1, device: 'phone', seq: at, at, itemId: 'item', path: 'Media/a.mp3', ...overrides, ...body } as SyncEvent;
+}
+
+// A small seeded generator, so the mixed logs below are the same on every run.
+function makeRandom(seed: number) {
+    let state = seed;
+    return (max: number) => {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        return state % max;
+    };
+}
+
+function makeMixedLog(seed: number, device: string, count: number): SyncEvent[] {
+    const random = makeRandom(seed);
+    const events: SyncEvent[] = [];
+    for (let seq = 0; seq < count; seq++) {
+        const itemId = `item-${random(3)}`;
+        const at = 1000 + random(50); // plenty of equal timestamps, so ties matter
+        const id = `${itemId}-${random(4)}`;
+        let body: SyncEventBody;
+        switch (random(6)) {
+            case 0: body = { type: 'set', fields: { position: random(500), playbackSpeed: 1 + random(3) } }; break;
+            case 1: body = { type: 'set', fields: { status: random(2) ? 'playing' : 'completed', consumedAt: random(2) ? '2024-01-01' : null as unknown as string } }; break;
+            case 2: body = { type: 'bookmark-put', bookmark: { id, time: random(500), createdAt: at } }; break;
+            case 3: body = { type: 'bookmark-remove', bookmarkId: id }; break;
+            case 4: body = { type: 'loop-put', loop: { id, start: random(100), end: 100 + random(100), createdAt: at } }; break;
+            default: body = { type: 'loop-remove', loopId: id }; break;
+        }
+        events.push(makeEvent(at, body, { device, seq, itemId, path: `Media/${itemId}.mp3` }));
+    }
+    return events;
+}
+
+const mixedLogItems = [0, 1, 2].map(index => makeItem({ id: `item-${index}`, path: `Media/item-${index}.mp3` }));
+
+test('a removal hides the bookmark from every copy of the queue', () => {
+    const states = foldSyncEvents([
+        makeEvent(1, { type: 'bookmark-put', bookmark }),
+        makeEvent(2, { type: 'bookmark-remove', bookmarkId: 'b1' })
+    ]);
+    const item = makeItem({ bookmarks: [bookmark] });
+
+    applySyncedState(item, states.get('item')!);
+    assert.strictEqual(item.bookmarks, undefined);
+});
+
+test('a put newer than the removal brings the bookmark back', () => {
+    const states = foldSyncEvents([
+        makeEvent(1, { type: 'bookmark-put', bookmark }),
+        makeEvent(2, { type: 'bookmark-remove', bookmarkId: 'b1' }),
+        makeEvent(3, { type: 'bookmark-put', bookmark })
+    ]);
+    const item = makeItem();
+
+    applySyncedState(item, states.get('item')!);
+    assert.deepStrictEqual(item.bookmarks, [bookmark]);
+});
+
+test('a restored item is logged in full, including cleared fields and dropped bookmarks', () => {
+    const current = makeItem({ position: 50, playbackSpeed: 2, bookmarks: [{ id: 'b2', time: 30, createdAt: 2 }] });
+    const restored = makeItem({ position: 10, bookmarks: [bookmark] });
+
+    const changes = diffPlaybackState(snapshotBeforeRestore(snapshotPlaybackState(current), restored), restored);
+    const set = changes.find(change => change.type === 'set');
+
+    assert.ok(set && set.type === 'set');
+    assert.strictEqual(set.fields.position, 10);
+    assert.strictEqual(set.fields.status, 'pending');
+    assert.strictEqual(set.fields.playbackSpeed, null);
+    assert.ok(changes.some(change => change.type === 'bookmark-put' && change.bookmark.id === 'b1'));
+    assert.ok(changes.some(change => change.type === 'bookmark-remove' && change.bookmarkId === 'b2'));
+});
+
+test('events sort by time, then device, then sequence', () => {
+    const events = [
+        makeEvent(2, { type: 'set', fields: { position: 1 } }, { device: 'b', seq: 0 }),
+        makeEvent(1, { type: 'set', fields: { position: 2 } }, { device: 'b', seq: 5 }),
+        makeEvent(2, { type: 'set', fields: { position: 3 } }, { device: 'a', seq: 9 }),
+        makeEvent(2, { type: 'set', fields: { position: 4 } }, { device: 'a', seq: 3 })
+    ];
+
+    assert.deepStrictEqual([...events].sort(compareSyncEvents).map(event => event.type === 'set' && event.fields.position), [2, 4, 3, 1]);
+});
+
+test('ties on time go to the later device and then the later sequence', () => {
+    const byDevice = foldSyncEvents([
+        makeEvent(5, { type: 'set', fields: { position: 20 } }, { device: 'phone', seq: 1 }),
+        makeEvent(5, { type: 'set', fields: { position: 10 } }, { device: 'desktop', seq: 7 })
+    ]);
+    assert.strictEqual(byDevice.get('item')!.fields.position, 20);
+
+    const bySequence = foldSyncEvents([
+        makeEvent(5, { type: 'set', fields: { position: 30 } }, { seq: 2 }),
+        makeEvent(5, { type: 'set', fields: { position: 40 } }, { seq: 1 })
+    ]);
+    assert.strictEqual(bySequence.get('item')!.fields.position, 30);
+});
+
+test('each field takes the newest value across devices', () => {
+    const state = foldSyncEvents([
+        makeEvent(1, { type: 'set', fields: { position: 10, playbackSpeed: 1.5 } }, { device: 'desktop' }),
+        makeEvent(2, { type: 'set', fields: { playbackSpeed: 2 } }, { device: 'phone' }),
+        makeEvent(3, { type: 'set', fields: { position: 30 } }, { device: 'desktop' }),
+        makeEvent(4, { type: 'set', fields: { status: 'completed' } }, { device: 'tablet' })
+    ]).get('item')!;
+
+    assert.deepStrictEqual(state.fields, { position: 30, playbackSpeed: 2, status: 'completed' });
+    assert.strictEqual(state.updatedAt, 4);
+});
+
+test('compacting one device\'s log never changes the fold', () => {
+    for (const seed of [1, 7, 42, 1234]) {
+        const events = makeMixedLog(seed, 'phone', 300);
+        assert.deepStrictEqual(foldSyncEvents(compactDeviceEvents(events, mixedLogItems)), foldSyncEvents(events), `seed ${seed}`);
+    }
+});
+
+test('compacting one device\'s log never changes the fold of all devices', () => {
+    const own = makeMixedLog(3, 'phone', 300);
+    const others = [...makeMixedLog(5, 'desktop', 200), ...makeMixedLog(11, 'tablet', 200)];
+
+    assert.deepStrictEqual(
+        foldSyncEvents([...compactDeviceEvents(own, mixedLogItems), ...others]),
+        foldSyncEvents([...own, ...others])
+    );
+});
+
+test('compaction keeps fewer events and drops items that left the queue', () => {
+    const events = makeMixedLog(9, 'phone', 300);
+    const compacted = compactDeviceEvents(events, mixedLogItems.slice(0, 2));
+
+    assert.ok(compacted.length < events.length);
+    assert.ok(!compacted.some(event => event.itemId === 'item-2'));
+});
+
+test('synced state is found by id first', () => {
+    const states = foldSyncEvents([
+        makeEvent(5, { type: 'set', fields: { position: 1 } }, { itemId: 'item' }),
+        makeEvent(9, { type: 'set', fields: { position: 2 } }, { itemId: 'other' })
+    ]);
+
+    assert.strictEqual(findSyncedState(states, { id: 'item', path: 'Media/a.mp3', addedAt: 100 })?.itemId, 'item');
+});
+
+test('the path fallback takes the newest state written since the item was added', () => {
+    const states = foldSyncEvents([
+        makeEvent(50, { type: 'set', fields: { position: 1 } }, { itemId: 'stale' }),
+        makeEvent(150, { type: 'set', fields: { position: 2 } }, { itemId: 'desktop-copy' }),
+        makeEvent(200, { type: 'set', fields: { position: 3 } }, { itemId: 'phone-copy' }),
+        makeEvent(300, { type: 'set', fields: { position: 4 } }, { itemId: 'elsewhere', path: 'Media/b.mp3' })
+    ]);
+
+    assert.strictEqual(findSyncedState(states, { id: 'new', path: 'Media/a.mp3', addedAt: 100 })?.itemId, 'phone-copy');
+});
+
+test('the path fallback ignores history from before the item was added', () => {
+    const states = foldSyncEvents([makeEvent(50, { type: 'set', fields: { position: 1 } }, { itemId: 'stale' })]);
+
+    assert.strictEqual(findSyncedState(states, { id: 'new', path: 'Media/a.mp3', addedAt: 100 }), undefined);
+});
+
+test('items without addedAt match by id only', () => {
+    const states = foldSyncEvents([makeEvent(500, { type: 'set', fields: { position: 1 } }, { itemId: 'other' })]);
+
+    assert.strictEqual(findSyncedState(states, { id: 'new', path: 'Media/a.mp3' }), undefined);
+});